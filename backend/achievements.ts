@@ -0,0 +1,308 @@
+import { readFileSync } from 'fs';
+import defaultRules from './achievementRules.json';
+import { createCollection } from './storage';
+import { onUserEvent, UserEvent } from './userEvents';
+import { awardXp } from './progression';
+import { isTzOffset } from './analytics';
+
+// Achievements are data, not code: each rule in achievementRules.json (or the
+// file named by ACHIEVEMENT_RULES_PATH) pairs a badge with a condition over user events.
+
+export type AchievementCondition =
+  | { type: 'count'; event: string; target: number }
+  | { type: 'distinct'; event: string; field: string; target: number }
+  | { type: 'streak'; event: string; target: number }
+  | { type: 'timeOfDay'; event: string; fromHour: number; toHour: number; target: number }
+  | { type: 'all'; conditions: AchievementCondition[] };
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  xpReward?: number;
+  condition: AchievementCondition;
+}
+
+export interface AchievementStatus {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  xpReward: number;
+  unlocked: boolean;
+  unlockedAt?: string;
+  progress: {
+    current: number;
+    target: number;
+    percent: number;
+  };
+}
+
+interface AchievementStats {
+  counts: Record<string, number>;
+  // `${event}:${field}` -> distinct values seen
+  distinct: Record<string, string[]>;
+  // event -> sorted unique YYYY-MM-DD days, in the student's local time
+  days: Record<string, string[]>;
+  // event -> occurrences per local hour of day (0-23)
+  hours: Record<string, number[]>;
+  // Last timezone offset a client reported, used for events that carry none
+  tzOffsetMinutes?: number;
+}
+
+interface AchievementRecord {
+  userId: string;
+  stats: AchievementStats;
+  unlocked: Record<string, string>;
+  updatedAt: string;
+}
+
+const ANY_EVENT = '*';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const achievementRecords = createCollection<AchievementRecord>('achievements');
+
+function validateCondition(condition: AchievementCondition, path: string): string[] {
+  const errors: string[] = [];
+  const isPositiveInt = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+  switch (condition?.type) {
+    case 'count':
+    case 'streak':
+      if (!condition.event) errors.push(`${path}.event is required`);
+      if (!isPositiveInt(condition.target)) errors.push(`${path}.target must be a positive integer`);
+      break;
+    case 'distinct':
+      if (!condition.event) errors.push(`${path}.event is required`);
+      if (!condition.field) errors.push(`${path}.field is required`);
+      if (!isPositiveInt(condition.target)) errors.push(`${path}.target must be a positive integer`);
+      break;
+    case 'timeOfDay':
+      if (!condition.event) errors.push(`${path}.event is required`);
+      if (![condition.fromHour, condition.toHour].every(hour => Number.isInteger(hour) && hour >= 0 && hour <= 23)) {
+        errors.push(`${path}.fromHour/toHour must be hours between 0 and 23`);
+      }
+      if (!isPositiveInt(condition.target)) errors.push(`${path}.target must be a positive integer`);
+      break;
+    case 'all':
+      if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        errors.push(`${path}.conditions must be a non-empty array`);
+      } else {
+        condition.conditions.forEach((child, index) => {
+          errors.push(...validateCondition(child, `${path}.conditions[${index}]`));
+        });
+      }
+      break;
+    default:
+      errors.push(`${path}.type "${(condition as { type?: string })?.type}" is not supported`);
+  }
+
+  return errors;
+}
+
+// Load and validate the rule file; invalid rules are skipped with a warning
+export function loadAchievementRules(rulesPath = process.env.ACHIEVEMENT_RULES_PATH): AchievementRule[] {
+  let raw: unknown = defaultRules;
+
+  if (rulesPath) {
+    try {
+      raw = JSON.parse(readFileSync(rulesPath, 'utf8'));
+    } catch (error) {
+      console.error(`❌ Could not read achievement rules from ${rulesPath}, using built-in rules:`, error);
+    }
+  }
+
+  if (!Array.isArray(raw)) {
+    console.error('❌ Achievement rules must be an array, using none');
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return (raw as AchievementRule[]).filter((rule, index) => {
+    const errors = validateCondition(rule?.condition, 'condition');
+    if (!rule?.id || !rule.name) errors.push('id and name are required');
+    if (seen.has(rule?.id)) errors.push(`duplicate id "${rule.id}"`);
+
+    if (errors.length > 0) {
+      console.warn(`⚠️ Skipping achievement rule #${index} (${rule?.id ?? 'no id'}): ${errors.join('; ')}`);
+      return false;
+    }
+    seen.add(rule.id);
+    return true;
+  });
+}
+
+export const achievementRules = loadAchievementRules();
+
+// (event, field) pairs that distinct-conditions care about, so only those values are kept
+function collectDistinctKeys(conditions: AchievementCondition[]): Array<{ event: string; field: string }> {
+  return conditions.flatMap(condition => {
+    if (condition.type === 'distinct') return [{ event: condition.event, field: condition.field }];
+    if (condition.type === 'all') return collectDistinctKeys(condition.conditions);
+    return [];
+  });
+}
+
+const distinctKeys = collectDistinctKeys(achievementRules.map(rule => rule.condition));
+
+function emptyStats(): AchievementStats {
+  return { counts: {}, distinct: {}, days: {}, hours: {} };
+}
+
+function recordInStats(stats: AchievementStats, event: UserEvent): AchievementStats {
+  const reported = event.data?.tzOffsetMinutes;
+  const tzOffsetMinutes = isTzOffset(reported) ? reported : stats.tzOffsetMinutes;
+  // Shift to the student's wall clock, then read it back with the UTC getters
+  const local = new Date(Date.parse(event.occurredAt) - (tzOffsetMinutes ?? 0) * 60000);
+  if (Number.isNaN(local.getTime())) return stats;
+
+  const day = local.toISOString().substring(0, 10);
+  const hour = local.getUTCHours();
+  const next: AchievementStats = {
+    counts: { ...stats.counts },
+    distinct: { ...stats.distinct },
+    days: { ...stats.days },
+    hours: { ...stats.hours },
+    tzOffsetMinutes
+  };
+
+  for (const key of [event.type, ANY_EVENT]) {
+    next.counts[key] = (next.counts[key] ?? 0) + 1;
+
+    const days = next.days[key] ?? [];
+    if (!days.includes(day)) {
+      next.days[key] = [...days, day].sort();
+    }
+
+    const hours = [...(next.hours[key] ?? new Array(24).fill(0))];
+    hours[hour] += 1;
+    next.hours[key] = hours;
+  }
+
+  for (const { event: eventType, field } of distinctKeys) {
+    if (eventType !== ANY_EVENT && eventType !== event.type) continue;
+
+    const value = event.data?.[field];
+    if (typeof value !== 'string' || !value.trim()) continue;
+
+    const key = `${eventType}:${field}`;
+    const values = next.distinct[key] ?? [];
+    const normalized = value.trim();
+    if (!values.some(existing => existing.toLowerCase() === normalized.toLowerCase())) {
+      next.distinct[key] = [...values, normalized];
+    }
+  }
+
+  return next;
+}
+
+// Consecutive days, ending on the most recent active day
+function currentStreak(days: string[]): number {
+  if (days.length === 0) return 0;
+
+  let streak = 1;
+  for (let i = days.length - 1; i > 0; i--) {
+    const gap = Date.parse(days[i]) - Date.parse(days[i - 1]);
+    if (gap !== DAY_MS) break;
+    streak++;
+  }
+  return streak;
+}
+
+function hoursInWindow(fromHour: number, toHour: number): number[] {
+  const hours: number[] = [];
+  for (let hour = fromHour; hour !== toHour; hour = (hour + 1) % 24) {
+    hours.push(hour);
+  }
+  return hours;
+}
+
+function evaluateCondition(condition: AchievementCondition, stats: AchievementStats): { current: number; target: number } {
+  switch (condition.type) {
+    case 'count':
+      return { current: stats.counts[condition.event] ?? 0, target: condition.target };
+    case 'distinct':
+      return { current: stats.distinct[`${condition.event}:${condition.field}`]?.length ?? 0, target: condition.target };
+    case 'streak':
+      return { current: currentStreak(stats.days[condition.event] ?? []), target: condition.target };
+    case 'timeOfDay': {
+      const perHour = stats.hours[condition.event] ?? [];
+      const current = hoursInWindow(condition.fromHour, condition.toHour)
+        .reduce((sum, hour) => sum + (perHour[hour] ?? 0), 0);
+      return { current, target: condition.target };
+    }
+    case 'all': {
+      const satisfied = condition.conditions.filter(child => {
+        const { current, target } = evaluateCondition(child, stats);
+        return current >= target;
+      }).length;
+      return { current: satisfied, target: condition.conditions.length };
+    }
+  }
+}
+
+function toStatus(rule: AchievementRule, record?: AchievementRecord): AchievementStatus {
+  const { current, target } = evaluateCondition(rule.condition, record?.stats ?? emptyStats());
+  const unlockedAt = record?.unlocked[rule.id];
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    icon: rule.icon,
+    xpReward: rule.xpReward ?? 0,
+    unlocked: !!unlockedAt,
+    unlockedAt,
+    progress: {
+      current: unlockedAt ? target : Math.min(current, target),
+      target,
+      percent: unlockedAt ? 100 : Math.floor((Math.min(current, target) / target) * 100)
+    }
+  };
+}
+
+export async function getAchievements(userId: string): Promise<AchievementStatus[]> {
+  const record = await achievementRecords.get(userId);
+  return achievementRules.map(rule => toStatus(rule, record));
+}
+
+// Fold an event into the user's stats and unlock any rule it satisfies.
+// Already-unlocked achievements are never unlocked (or rewarded) twice.
+export async function processAchievementEvent(event: UserEvent): Promise<AchievementStatus[]> {
+  const existing = await achievementRecords.get(event.userId);
+  const stats = recordInStats(existing?.stats ?? emptyStats(), event);
+  const unlocked = { ...(existing?.unlocked ?? {}) };
+  const newlyUnlocked: AchievementRule[] = [];
+
+  for (const rule of achievementRules) {
+    if (unlocked[rule.id]) continue;
+
+    const { current, target } = evaluateCondition(rule.condition, stats);
+    if (current >= target) {
+      unlocked[rule.id] = event.occurredAt;
+      newlyUnlocked.push(rule);
+    }
+  }
+
+  const record: AchievementRecord = {
+    userId: event.userId,
+    stats,
+    unlocked,
+    updatedAt: new Date().toISOString()
+  };
+  await achievementRecords.set(event.userId, record);
+
+  for (const rule of newlyUnlocked) {
+    console.log(`🏆 Achievement Unlocked for ${event.userId}: ${rule.name}`);
+    if (rule.xpReward) {
+      await awardXp(event.userId, rule.xpReward, `Achievement Unlocked: ${rule.name}`);
+    }
+  }
+
+  return newlyUnlocked.map(rule => toStatus(rule, record));
+}
+
+onUserEvent(async (event) => {
+  await processAchievementEvent(event);
+});
@@ -0,0 +1,83 @@
+import { Collection, createCollection } from './storage';
+import { DEFAULT_PERSONA_ID } from './personas';
+
+export interface AgentRecord {
+  agentId: string;
+  userId: string;
+  personaId: string;
+  personaVersion: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+// Registry of Omnidimension agents, one per user and persona.
+export interface AgentStore {
+  findByUser(userId: string, personaId?: string): Promise<AgentRecord | undefined>;
+  findByAgentId(agentId: string): Promise<AgentRecord | undefined>;
+  save(record: AgentRecord): Promise<void>;
+  touch(agentId: string): Promise<AgentRecord | undefined>;
+  remove(userId: string, personaId?: string): Promise<boolean>;
+  list(): Promise<AgentRecord[]>;
+  count(): Promise<number>;
+}
+
+function agentKey(userId: string, personaId: string): string {
+  return `${userId}:${personaId}`;
+}
+
+// Records saved before personas existed are keyed by user id alone and belong to the default persona
+function withPersona(record: AgentRecord): AgentRecord {
+  return record.personaId ? record : { ...record, personaId: DEFAULT_PERSONA_ID };
+}
+
+class CollectionAgentStore implements AgentStore {
+  constructor(private readonly records: Collection<AgentRecord>) {}
+
+  async findByUser(userId: string, personaId = DEFAULT_PERSONA_ID): Promise<AgentRecord | undefined> {
+    const record = await this.records.get(agentKey(userId, personaId));
+    if (record) return record;
+
+    const legacy = personaId === DEFAULT_PERSONA_ID ? await this.records.get(userId) : undefined;
+    return legacy && withPersona(legacy);
+  }
+
+  async findByAgentId(agentId: string): Promise<AgentRecord | undefined> {
+    const records = await this.list();
+    return records.find(record => record.agentId === agentId);
+  }
+
+  async save(record: AgentRecord): Promise<void> {
+    await this.records.set(agentKey(record.userId, record.personaId), record);
+    if (record.personaId === DEFAULT_PERSONA_ID) await this.records.delete(record.userId);
+  }
+
+  async touch(agentId: string): Promise<AgentRecord | undefined> {
+    const record = await this.findByAgentId(agentId);
+    if (!record) return undefined;
+
+    const updated = { ...record, lastUsedAt: new Date().toISOString() };
+    await this.save(updated);
+    return updated;
+  }
+
+  async remove(userId: string, personaId = DEFAULT_PERSONA_ID): Promise<boolean> {
+    const removed = await this.records.delete(agentKey(userId, personaId));
+    const legacyRemoved = personaId === DEFAULT_PERSONA_ID && await this.records.delete(userId);
+    return removed || legacyRemoved;
+  }
+
+  async list(): Promise<AgentRecord[]> {
+    const entries = await this.records.entries();
+    return entries.map(([, record]) => withPersona(record));
+  }
+
+  async count(): Promise<number> {
+    return this.records.size();
+  }
+}
+
+export function createAgentStore(): AgentStore {
+  return new CollectionAgentStore(createCollection<AgentRecord>('agents'));
+}
+
+export const agentStore = createAgentStore();
@@ -0,0 +1,382 @@
+import { createCollection } from './storage';
+import { onUserEvent } from './userEvents';
+import { Mood, MOODS } from '../shared/emotion';
+
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+export type AnalyticsSource = 'chat' | 'voice' | 'quiz';
+export type DayPart = 'morning' | 'afternoon' | 'evening' | 'night';
+
+// One thing we learned about a user at a point in time; any field may be missing
+export interface AnalyticsObservation {
+  source: AnalyticsSource;
+  mood?: string;
+  moodConfidence?: number;
+  subject?: string;
+  learningMode?: string;
+  difficulty?: string;
+  score?: number;
+  minutes?: number;
+  recordedAt?: string;
+}
+
+interface MoodSample {
+  mood: Mood;
+  confidence?: number;
+  subject?: string;
+  source: AnalyticsSource;
+  recordedAt: string;
+}
+
+interface ActivitySample {
+  subject: string;
+  minutes: number;
+  source: AnalyticsSource;
+  recordedAt: string;
+}
+
+interface ModeSample {
+  mode: string;
+  source: AnalyticsSource;
+  recordedAt: string;
+}
+
+interface DifficultySample {
+  level: DifficultyLevel;
+  subject?: string;
+  score?: number;
+  source: AnalyticsSource;
+  recordedAt: string;
+}
+
+interface AnalyticsRecord {
+  userId: string;
+  moods: MoodSample[];
+  activity: ActivitySample[];
+  modes: ModeSample[];
+  difficulty: DifficultySample[];
+  // Last chat message, used to turn message gaps into study time
+  lastActivityAt?: string;
+  updatedAt: string;
+}
+
+export interface MoodDay {
+  date: string;
+  counts: Record<Mood, number>;
+  dominant: Mood;
+  samples: number;
+}
+
+export interface MoodPatternCell {
+  weekday: number;
+  dayPart: DayPart;
+  counts: Record<Mood, number>;
+  dominant: Mood;
+  samples: number;
+}
+
+export interface DifficultyTrend {
+  subject: string;
+  samples: number;
+  averageLevel: number;
+  latest: DifficultyLevel;
+  trend: 'rising' | 'steady' | 'falling';
+  averageScore?: number;
+}
+
+export interface UserAnalytics {
+  userId: string;
+  range: { from: string; to: string; days: number };
+  mood: {
+    totals: Record<Mood, number>;
+    timeline: MoodDay[];
+    patterns: MoodPatternCell[];
+    insights: string[];
+  };
+  subjects: { totalMinutes: number; breakdown: Array<{ subject: string; minutes: number }> };
+  learningModes: Array<{ mode: string; count: number; percent: number }>;
+  difficulty: {
+    bySubject: DifficultyTrend[];
+    timeline: Array<{ date: string; averageLevel: number; samples: number }>;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SAMPLE_LIMIT = 1000;
+// Messages closer together than this count as one continuous stretch of study
+const ACTIVE_GAP_MINUTES = 10;
+// Study time credited for a message that starts a new stretch
+const MESSAGE_MINUTES = 1;
+const MIN_PATTERN_SAMPLES = 3;
+const PATTERN_SHARE = 0.5;
+const TREND_THRESHOLD = 0.25;
+export const DEFAULT_ANALYTICS_DAYS = 30;
+export const MAX_ANALYTICS_DAYS = 365;
+// Real time zones run from UTC-12:00 to UTC+14:00
+export const MAX_TZ_OFFSET_MINUTES = 14 * 60;
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DAY_PART_PLURALS: Record<DayPart, string> = {
+  morning: 'mornings',
+  afternoon: 'afternoons',
+  evening: 'evenings',
+  night: 'nights'
+};
+
+// Offsets follow Date#getTimezoneOffset: whole minutes behind UTC
+export function isTzOffset(value: unknown): value is number {
+  return Number.isInteger(value) && Math.abs(value as number) <= MAX_TZ_OFFSET_MINUTES;
+}
+
+const analyticsRecords = createCollection<AnalyticsRecord>('analytics');
+
+function emptyMoodCounts(): Record<Mood, number> {
+  return { happy: 0, confused: 0, tired: 0, frustrated: 0, excited: 0, neutral: 0 };
+}
+
+function dominantMood(counts: Record<Mood, number>): Mood {
+  return MOODS.reduce((best, mood) => (counts[mood] > counts[best] ? mood : best), 'neutral' as Mood);
+}
+
+function dayPartForHour(hour: number): DayPart {
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+// Accepts our own ids as well as Omnidimension's labels ("Tired", "Advanced")
+function normalizeMood(value?: string): Mood | undefined {
+  const mood = value?.trim().toLowerCase() as Mood | undefined;
+  return mood && MOODS.includes(mood) ? mood : undefined;
+}
+
+function normalizeDifficulty(value?: string): DifficultyLevel | undefined {
+  const level = value?.trim().toLowerCase() as DifficultyLevel | undefined;
+  return level && DIFFICULTY_LEVELS.includes(level) ? level : undefined;
+}
+
+function capped<T>(samples: T[], sample: T): T[] {
+  return [...samples, sample].slice(-SAMPLE_LIMIT);
+}
+
+async function loadRecord(userId: string): Promise<AnalyticsRecord> {
+  return (await analyticsRecords.get(userId)) ?? {
+    userId,
+    moods: [],
+    activity: [],
+    modes: [],
+    difficulty: [],
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function applyObservation(record: AnalyticsRecord, observation: AnalyticsObservation): AnalyticsRecord {
+  const recordedAt = observation.recordedAt ?? new Date().toISOString();
+  const { source } = observation;
+  const subject = observation.subject?.trim() || undefined;
+  const updated = { ...record, updatedAt: new Date().toISOString() };
+
+  const mood = normalizeMood(observation.mood);
+  if (mood) {
+    updated.moods = capped(record.moods, { mood, confidence: observation.moodConfidence, subject, source, recordedAt });
+  }
+  if (observation.minutes && observation.minutes > 0) {
+    updated.activity = capped(record.activity, {
+      subject: subject ?? 'General',
+      minutes: Number(observation.minutes.toFixed(2)),
+      source,
+      recordedAt
+    });
+  }
+  const mode = observation.learningMode?.trim();
+  if (mode) {
+    updated.modes = capped(record.modes, { mode, source, recordedAt });
+  }
+  const level = normalizeDifficulty(observation.difficulty);
+  if (level) {
+    updated.difficulty = capped(record.difficulty, { level, subject, score: observation.score, source, recordedAt });
+  }
+  return updated;
+}
+
+export async function recordObservation(userId: string, observation: AnalyticsObservation): Promise<void> {
+  await analyticsRecords.set(userId, applyObservation(await loadRecord(userId), observation));
+}
+
+// Credit the time since the previous message to the current subject, as long as
+// the student didn't wander off in between
+async function recordChatActivity(userId: string, data: Record<string, unknown>, occurredAt: string): Promise<void> {
+  const record = await loadRecord(userId);
+  const gapMinutes = record.lastActivityAt
+    ? (Date.parse(occurredAt) - Date.parse(record.lastActivityAt)) / 60000
+    : Infinity;
+
+  const updated = applyObservation({ ...record, lastActivityAt: occurredAt }, {
+    source: 'chat',
+    mood: typeof data.mood === 'string' ? data.mood : undefined,
+    moodConfidence: typeof data.moodConfidence === 'number' ? data.moodConfidence : undefined,
+    subject: typeof data.subject === 'string' ? data.subject : undefined,
+    learningMode: typeof data.learningMode === 'string' ? data.learningMode : undefined,
+    minutes: gapMinutes <= ACTIVE_GAP_MINUTES ? gapMinutes : MESSAGE_MINUTES,
+    recordedAt: occurredAt
+  });
+  await analyticsRecords.set(userId, updated);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function levelValue(level: DifficultyLevel): number {
+  return DIFFICULTY_LEVELS.indexOf(level) + 1;
+}
+
+// Compare the older half of the samples with the newer half
+function trendOf(levels: number[]): DifficultyTrend['trend'] {
+  if (levels.length < 2) return 'steady';
+  const middle = Math.floor(levels.length / 2);
+  const change = average(levels.slice(middle)) - average(levels.slice(0, middle));
+  if (change > TREND_THRESHOLD) return 'rising';
+  if (change < -TREND_THRESHOLD) return 'falling';
+  return 'steady';
+}
+
+function summarizeMoods(samples: MoodSample[], toLocal: (iso: string) => Date): UserAnalytics['mood'] {
+  const totals = emptyMoodCounts();
+  const days = new Map<string, Record<Mood, number>>();
+  const cells = new Map<string, MoodPatternCell>();
+
+  for (const sample of samples) {
+    const local = toLocal(sample.recordedAt);
+    const date = local.toISOString().slice(0, 10);
+    const weekday = local.getUTCDay();
+    const dayPart = dayPartForHour(local.getUTCHours());
+
+    totals[sample.mood]++;
+    const dayCounts = days.get(date) ?? emptyMoodCounts();
+    dayCounts[sample.mood]++;
+    days.set(date, dayCounts);
+
+    const key = `${weekday}-${dayPart}`;
+    const cell = cells.get(key) ?? { weekday, dayPart, counts: emptyMoodCounts(), dominant: 'neutral', samples: 0 };
+    cell.counts[sample.mood]++;
+    cell.samples++;
+    cell.dominant = dominantMood(cell.counts);
+    cells.set(key, cell);
+  }
+
+  const timeline = [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, counts]) => ({
+      date,
+      counts,
+      dominant: dominantMood(counts),
+      samples: MOODS.reduce((sum, mood) => sum + counts[mood], 0)
+    }));
+
+  const patterns = [...cells.values()].sort((a, b) => a.weekday - b.weekday || a.dayPart.localeCompare(b.dayPart));
+
+  // Call out the times of week where one non-neutral mood clearly dominates
+  const insights = patterns
+    .filter(cell => cell.samples >= MIN_PATTERN_SAMPLES && cell.dominant !== 'neutral')
+    .filter(cell => cell.counts[cell.dominant] / cell.samples >= PATTERN_SHARE)
+    .sort((a, b) => b.counts[b.dominant] - a.counts[a.dominant])
+    .map(cell => `Usually ${cell.dominant} on ${WEEKDAYS[cell.weekday]} ${DAY_PART_PLURALS[cell.dayPart]}`);
+
+  return { totals, timeline, patterns, insights };
+}
+
+function summarizeDifficulty(samples: DifficultySample[], toLocal: (iso: string) => Date): UserAnalytics['difficulty'] {
+  const bySubject = new Map<string, DifficultySample[]>();
+  const byDate = new Map<string, number[]>();
+
+  for (const sample of samples) {
+    const subject = sample.subject ?? 'General';
+    bySubject.set(subject, [...(bySubject.get(subject) ?? []), sample]);
+
+    const date = toLocal(sample.recordedAt).toISOString().slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) ?? []), levelValue(sample.level)]);
+  }
+
+  return {
+    bySubject: [...bySubject.entries()].map(([subject, subjectSamples]) => {
+      const levels = subjectSamples.map(sample => levelValue(sample.level));
+      const scores = subjectSamples.flatMap(sample => (sample.score !== undefined ? [sample.score] : []));
+      return {
+        subject,
+        samples: subjectSamples.length,
+        averageLevel: Number(average(levels).toFixed(2)),
+        latest: subjectSamples[subjectSamples.length - 1].level,
+        trend: trendOf(levels),
+        ...(scores.length > 0 ? { averageScore: Number(average(scores).toFixed(2)) } : {})
+      };
+    }).sort((a, b) => b.samples - a.samples),
+    timeline: [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, levels]) => ({ date, averageLevel: Number(average(levels).toFixed(2)), samples: levels.length }))
+  };
+}
+
+// tzOffsetMinutes follows Date#getTimezoneOffset (minutes behind UTC), so weekdays
+// and times of day line up with the student's own clock
+export async function getAnalytics(
+  userId: string,
+  options: { days?: number; tzOffsetMinutes?: number } = {}
+): Promise<UserAnalytics> {
+  const days = options.days ?? DEFAULT_ANALYTICS_DAYS;
+  const tzOffsetMinutes = options.tzOffsetMinutes ?? 0;
+  const to = new Date();
+  const from = new Date(to.getTime() - days * DAY_MS);
+  const record = await loadRecord(userId);
+
+  const inRange = <T extends { recordedAt: string }>(samples: T[]) =>
+    samples.filter(sample => Date.parse(sample.recordedAt) >= from.getTime());
+  const toLocal = (iso: string) => new Date(Date.parse(iso) - tzOffsetMinutes * 60000);
+
+  const subjectMinutes = new Map<string, number>();
+  for (const sample of inRange(record.activity)) {
+    subjectMinutes.set(sample.subject, (subjectMinutes.get(sample.subject) ?? 0) + sample.minutes);
+  }
+  const breakdown = [...subjectMinutes.entries()]
+    .map(([subject, minutes]) => ({ subject, minutes: Number(minutes.toFixed(1)) }))
+    .sort((a, b) => b.minutes - a.minutes);
+
+  const modes = inRange(record.modes);
+  const modeCounts = new Map<string, number>();
+  for (const sample of modes) {
+    modeCounts.set(sample.mode, (modeCounts.get(sample.mode) ?? 0) + 1);
+  }
+
+  return {
+    userId,
+    range: { from: from.toISOString(), to: to.toISOString(), days },
+    mood: summarizeMoods(inRange(record.moods), toLocal),
+    subjects: {
+      totalMinutes: Number(breakdown.reduce((sum, entry) => sum + entry.minutes, 0).toFixed(1)),
+      breakdown
+    },
+    learningModes: [...modeCounts.entries()]
+      .map(([mode, count]) => ({ mode, count, percent: Math.round((count / modes.length) * 100) }))
+      .sort((a, b) => b.count - a.count),
+    difficulty: summarizeDifficulty(inRange(record.difficulty), toLocal)
+  };
+}
+
+onUserEvent(async (event) => {
+  const data = event.data ?? {};
+
+  if (event.type === 'message_sent') {
+    await recordChatActivity(event.userId, data, event.occurredAt);
+  }
+
+  if (event.type === 'quiz_completed' && typeof data.total === 'number' && data.total > 0) {
+    await recordObservation(event.userId, {
+      source: 'quiz',
+      subject: typeof data.subject === 'string' ? data.subject : undefined,
+      difficulty: typeof data.difficulty === 'string' ? data.difficulty : undefined,
+      score: Number(data.correct) / data.total,
+      recordedAt: event.occurredAt
+    });
+  }
+});
@@ -0,0 +1,225 @@
+import { CompletionResult } from './providers';
+import type { LearningMode } from './learningModes';
+import type { DifficultyLevel } from './analytics';
+
+// Reuses tutor answers for questions students keep asking ("what is photosynthesis").
+// Answers are only shared between the same persona version, learning mode and skill level
+// in the question's subject, and only for prompts with nothing else tailored to one student
+// (the caller decides). Within
+// that scope a question hits on the same normalized text, or on an earlier question
+// whose TF-IDF vector is close enough, so small rewordings are caught too.
+
+export interface AnswerCacheScope {
+  personaId: string;
+  personaVersion: number;
+  mode?: LearningMode;
+  // The student's level in the question's subject, which the prompt asks the answer to match
+  level?: DifficultyLevel;
+}
+
+export interface CacheHit {
+  // Cosine similarity to the cached question; 1 for the same normalized text
+  similarity: number;
+  matchedQuestion: string;
+  cachedAt: string;
+  hits: number;
+}
+
+interface CacheEntry {
+  scope: string;
+  question: string;
+  terms: string[];
+  // Numbers in the question, in order; rewordings only match when these are identical
+  numbers: string;
+  result: CompletionResult;
+  cachedAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+interface ParsedQuestion {
+  question: string;
+  terms: string[];
+  numbers: string;
+}
+
+const ENABLED = process.env.ANSWER_CACHE_ENABLED !== 'false';
+const TTL_MS = (Number(process.env.ANSWER_CACHE_TTL_MINUTES) || 24 * 60) * 60 * 1000;
+const MAX_ENTRIES = Number(process.env.ANSWER_CACHE_MAX_ENTRIES) || 500;
+const SIMILARITY_THRESHOLD = Number(process.env.ANSWER_CACHE_SIMILARITY) || 0.85;
+// Longer messages are usually about the student's own work rather than a common question
+const MAX_QUESTION_LENGTH = 200;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'do', 'does', 'did',
+  'what', 'whats', 'which', 'who', 'whom', 'how', 'why', 'when', 'where',
+  'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with', 'about', 'into', 'as', 'and', 'or',
+  'i', 'me', 'my', 'we', 'us', 'you', 'your', 'can', 'could', 'would', 'will', 'should', 'shall',
+  'hi', 'hey', 'hello', 'pls', 'plz', 'please', 'thanks', 'just', 'really', 'some', 'any', 'there'
+]);
+
+// Words that say what kind of answer is wanted rather than what it is about
+const REQUEST_WORDS = new Set([
+  'explain', 'describe', 'define', 'definition', 'meaning', 'mean', 'tell', 'show', 'give',
+  'help', 'understand', 'know', 'learn', 'want', 'need', 'captain', 'focus', 'simple', 'simply', 'means'
+]);
+
+// Words that only make sense against what was said before
+const FOLLOW_UP_WORDS = new Set([
+  'it', 'its', 'this', 'that', 'these', 'those', 'they', 'them', 'their', 'he', 'she', 'him', 'her',
+  'his', 'above', 'again', 'previous', 'earlier', 'same', 'instead', 'more', 'another', 'else', 'also', 'too'
+]);
+const FOLLOW_UP_START = /^(and|but|so|then|ok|okay|yes|no|why not|what about|how about|what if)\b/;
+
+// Map order doubles as recency: hits move an entry to the end, eviction takes from the front
+const entries = new Map<string, CacheEntry>();
+
+function scopeKey(scope: AnswerCacheScope): string {
+  return `${scope.personaId}@${scope.personaVersion}:${scope.mode ?? 'auto'}:${scope.level ?? 'any'}`;
+}
+
+function normalize(message: string): string {
+  return message
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]s\b/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Crude plural folding so "laws" and "law" count as the same term
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+// Undefined for messages that depend on the conversation so far or are too personal to share
+function parseQuestion(message: string): ParsedQuestion | undefined {
+  if (message.length > MAX_QUESTION_LENGTH) return undefined;
+
+  const question = normalize(message);
+  const words = question.split(' ').filter(Boolean);
+  if (FOLLOW_UP_START.test(question) || words.some(word => FOLLOW_UP_WORDS.has(word))) return undefined;
+
+  const terms = words
+    .filter(word => !STOP_WORDS.has(word) && !REQUEST_WORDS.has(word))
+    .map(stem);
+  // "why?", "explain please" and the like need the previous turn to mean anything
+  if (terms.length === 0) return undefined;
+
+  return { question, terms, numbers: words.filter(word => /^\d+$/.test(word)).join(' ') };
+}
+
+function isExpired(entry: CacheEntry, now: number): boolean {
+  return entry.expiresAt <= now;
+}
+
+function termCounts(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+// TF-IDF cosine against every candidate, with document frequencies taken from the
+// candidates plus the query itself
+function closestMatch(parsed: ParsedQuestion, candidates: CacheEntry[]): { entry: CacheEntry; similarity: number } | undefined {
+  const documents = [parsed.terms, ...candidates.map(entry => entry.terms)].map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  for (const counts of documents) {
+    for (const term of counts.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf = (term: string) => Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) ?? 0))) + 1;
+
+  const vectors = documents.map(counts => {
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) vector.set(term, count * idf(term));
+    return vector;
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((total, weight) => total + weight * weight, 0));
+
+  const [query, ...others] = vectors;
+  const queryNorm = norm(query);
+  let best: { entry: CacheEntry; similarity: number } | undefined;
+
+  others.forEach((vector, index) => {
+    let dot = 0;
+    for (const [term, weight] of query) dot += weight * (vector.get(term) ?? 0);
+    const similarity = dot / (queryNorm * norm(vector) || 1);
+    if (!best || similarity > best.similarity) best = { entry: candidates[index], similarity };
+  });
+
+  return best;
+}
+
+function evict(now: number): void {
+  for (const [key, entry] of entries) {
+    if (isExpired(entry, now)) entries.delete(key);
+  }
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+export function lookupAnswer(scope: AnswerCacheScope, message: string): { result: CompletionResult; hit: CacheHit } | undefined {
+  if (!ENABLED) return undefined;
+  const parsed = parseQuestion(message);
+  if (!parsed) return undefined;
+
+  const now = Date.now();
+  const key = scopeKey(scope);
+  let match: { entry: CacheEntry; similarity: number } | undefined;
+
+  const exact = entries.get(`${key}\n${parsed.question}`);
+  if (exact && !isExpired(exact, now)) {
+    match = { entry: exact, similarity: 1 };
+  } else {
+    const candidates = [...entries.values()].filter(entry =>
+      entry.scope === key && entry.numbers === parsed.numbers && !isExpired(entry, now));
+    const closest = candidates.length > 0 ? closestMatch(parsed, candidates) : undefined;
+    if (closest && closest.similarity >= SIMILARITY_THRESHOLD) match = closest;
+  }
+  if (!match) return undefined;
+
+  const { entry, similarity } = match;
+  entry.hits++;
+  const entryKey = `${entry.scope}\n${entry.question}`;
+  entries.delete(entryKey);
+  entries.set(entryKey, entry);
+
+  return {
+    // Nothing was sent to a model for this answer
+    result: { ...entry.result, usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false } },
+    hit: {
+      similarity: Number(similarity.toFixed(3)),
+      matchedQuestion: entry.question,
+      cachedAt: new Date(entry.cachedAt).toISOString(),
+      hits: entry.hits
+    }
+  };
+}
+
+// Only complete answers from a real model are worth sharing: truncated or filtered replies
+// are not stored, and the local provider's scripted replies cost nothing to produce again
+export function storeAnswer(scope: AnswerCacheScope, message: string, result: CompletionResult): void {
+  if (!ENABLED || result.provider === 'local' || !result.text.trim()) return;
+  if (result.finishReason === 'length' || result.finishReason === 'content_filter') return;
+  const parsed = parseQuestion(message);
+  if (!parsed) return;
+
+  const now = Date.now();
+  const key = scopeKey(scope);
+  const entryKey = `${key}\n${parsed.question}`;
+  entries.delete(entryKey);
+  entries.set(entryKey, {
+    scope: key,
+    ...parsed,
+    result,
+    cachedAt: now,
+    expiresAt: now + TTL_MS,
+    hits: 0
+  });
+  evict(now);
+}
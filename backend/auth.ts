@@ -0,0 +1,260 @@
+import { createHmac, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextFunction, Request, Response } from 'express';
+import { createCollection } from './storage';
+
+export type UserRole = 'student' | 'admin';
+
+interface UserRecord {
+  id: string;
+  // Lowercased login name, unique
+  username: string;
+  displayName: string;
+  role: UserRole;
+  passwordHash: string;
+  passwordSalt: string;
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+// What routes get to see about the caller
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+}
+
+export interface AuthResult {
+  user?: AuthUser;
+  token?: string;
+  expiresAt?: string;
+  error?: { status: number; error: string; code: string };
+}
+
+interface TokenClaims {
+  sub: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 256;
+const TOKEN_TTL_HOURS = Number(process.env.AUTH_TOKEN_TTL_HOURS) || 24 * 7;
+
+// Without a configured secret, tokens are signed with a per-process key and stop working on restart
+const TOKEN_SECRET = process.env.AUTH_TOKEN_SECRET || randomBytes(32).toString('hex');
+if (!process.env.AUTH_TOKEN_SECRET) {
+  console.warn('⚠️ AUTH_TOKEN_SECRET is not set - sign-ins will not survive a restart');
+}
+
+const users = createCollection<UserRecord>('users');
+
+// Usernames with a registration in flight, so two requests cannot both claim the same one
+const registering = new Set<string>();
+
+function toAuthUser(record: UserRecord): AuthUser {
+  return { id: record.id, username: record.username, displayName: record.displayName, role: record.role };
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', TOKEN_SECRET).update(data).digest('base64url');
+}
+
+// HS256 JWT, so tokens can be inspected with standard tooling
+function issueToken(user: AuthUser): { token: string; expiresAt: string } {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = {
+    sub: user.id,
+    username: user.username,
+    name: user.displayName,
+    role: user.role,
+    iat: now,
+    exp: now + TOKEN_TTL_HOURS * 3600
+  };
+  const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+  return { token: `${unsigned}.${sign(unsigned)}`, expiresAt: new Date(claims.exp * 1000).toISOString() };
+}
+
+export function verifyToken(token: string): AuthUser | undefined {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return undefined;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenClaims;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return undefined;
+    return { id: claims.sub, username: claims.username, displayName: claims.name, role: claims.role };
+  } catch {
+    return undefined;
+  }
+}
+
+async function hashPassword(password: string, salt: Buffer): Promise<string> {
+  return (await scryptAsync(password, salt, KEY_LENGTH)).toString('hex');
+}
+
+async function findByUsername(username: string): Promise<UserRecord | undefined> {
+  const entries = await users.entries();
+  return entries.map(([, user]) => user).find(user => user.username === username);
+}
+
+export function validateCredentials(input: { username?: unknown; password?: unknown; displayName?: unknown }): string[] {
+  const errors: string[] = [];
+  const username = typeof input.username === 'string' ? input.username.trim().toLowerCase() : '';
+
+  if (!USERNAME_PATTERN.test(username)) {
+    errors.push('username must be 3-32 characters of letters, numbers, dots, dashes or underscores');
+  }
+  if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH || input.password.length > MAX_PASSWORD_LENGTH) {
+    errors.push(`password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters`);
+  }
+  if (input.displayName !== undefined && (typeof input.displayName !== 'string' || input.displayName.trim().length > 60)) {
+    errors.push('displayName must be at most 60 characters');
+  }
+  return errors;
+}
+
+async function createUser(username: string, password: string, role: UserRole, displayName?: string): Promise<AuthResult> {
+  const normalized = username.trim().toLowerCase();
+  const taken: AuthResult = { error: { status: 409, error: 'Username is already taken', code: 'USERNAME_TAKEN' } };
+  if (registering.has(normalized)) return taken;
+
+  registering.add(normalized);
+  try {
+    if (await findByUsername(normalized)) return taken;
+
+    const salt = randomBytes(SALT_BYTES);
+    const record: UserRecord = {
+      id: randomUUID(),
+      username: normalized,
+      displayName: displayName?.trim() || username.trim(),
+      role,
+      passwordHash: await hashPassword(password, salt),
+      passwordSalt: salt.toString('hex'),
+      createdAt: new Date().toISOString()
+    };
+    await users.set(record.id, record);
+
+    console.log(`🧑‍🎓 Registered ${role} ${record.username} (${record.id})`);
+    const user = toAuthUser(record);
+    return { user, ...issueToken(user) };
+  } finally {
+    registering.delete(normalized);
+  }
+}
+
+// Self-registration only ever creates students
+export async function registerUser(username: string, password: string, displayName?: string): Promise<AuthResult> {
+  return createUser(username, password, 'student', displayName);
+}
+
+// Create the admin account named by ADMIN_USERNAME and ADMIN_PASSWORD if it does not exist yet.
+// Call before the server listens so the name is claimed before anyone can register it.
+// An existing student with that name is never promoted.
+export async function bootstrapAdmin(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username && !password) return;
+
+  const errors = validateCredentials({ username, password });
+  if (errors.length > 0) {
+    console.error(`❌ Admin account not created: ${errors.join('; ')}`);
+    return;
+  }
+
+  const { error } = await createUser(username as string, password as string, 'admin');
+  if (error?.code !== 'USERNAME_TAKEN') return;
+
+  const existing = await findByUsername((username as string).trim().toLowerCase());
+  if (existing?.role !== 'admin') {
+    console.error(`❌ ADMIN_USERNAME ${existing?.username ?? username} is already registered as a student and was not made an admin`);
+  }
+}
+
+export async function loginUser(username: string, password: string): Promise<AuthResult> {
+  const record = await findByUsername(username.trim().toLowerCase());
+  const invalid: AuthResult = { error: { status: 401, error: 'Invalid username or password', code: 'INVALID_CREDENTIALS' } };
+  if (!record) {
+    // Hash anyway so unknown usernames take as long as wrong passwords
+    await hashPassword(password, randomBytes(SALT_BYTES));
+    return invalid;
+  }
+
+  const hash = Buffer.from(await hashPassword(password, Buffer.from(record.passwordSalt, 'hex')), 'hex');
+  const stored = Buffer.from(record.passwordHash, 'hex');
+  if (hash.length !== stored.length || !timingSafeEqual(hash, stored)) return invalid;
+
+  await users.set(record.id, { ...record, lastLoginAt: new Date().toISOString() });
+  const user = toAuthUser(record);
+  return { user, ...issueToken(user) };
+}
+
+// Puts the caller on req.user when a valid bearer token is sent.
+// A missing token is fine here; a bad one is rejected outright.
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const header = req.get('Authorization');
+  if (!header) return next();
+
+  const user = header.startsWith('Bearer ') ? verifyToken(header.slice(7).trim()) : undefined;
+  if (!user) {
+    res.status(401).json({ success: false, error: 'Invalid or expired token', code: 'INVALID_TOKEN' });
+    return;
+  }
+
+  req.user = user;
+  next();
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json({ success: false, error: 'Sign in required', code: 'AUTH_REQUIRED' });
+    return;
+  }
+  next();
+}
+
+// For routes with a :userId path parameter: only that user (or an admin) may use them
+export function requireSelf(req: Request, res: Response, next: NextFunction): void {
+  requireAuth(req, res, () => {
+    const user = req.user as AuthUser;
+    if (req.params.userId !== user.id && user.role !== 'admin') {
+      res.status(403).json({ success: false, error: 'You can only access your own data', code: 'USER_FORBIDDEN' });
+      return;
+    }
+    next();
+  });
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  requireAuth(req, res, () => {
+    if ((req.user as AuthUser).role !== 'admin') {
+      res.status(403).json({ success: false, error: 'Admin access required', code: 'ADMIN_REQUIRED' });
+      return;
+    }
+    next();
+  });
+}
@@ -0,0 +1,124 @@
+// Classic three-state circuit breaker. Closed: requests flow and consecutive failures are
+// counted. Open: requests are refused until the cooldown ends. Half-open: one probe request
+// decides whether to close again or re-open.
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that trip the breaker
+  failureThreshold: number;
+  // How long the breaker stays open before letting a probe through
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  openedAt?: string;
+  // When an open breaker will let the next probe through
+  retryAt?: string;
+  lastFailure?: { message: string; at: string };
+  lastSuccessAt?: string;
+  totalTrips: number;
+}
+
+// Thrown instead of making a request while the breaker is open
+export class CircuitOpenError extends Error {
+  readonly code = 'CIRCUIT_OPEN';
+  readonly retryAt: string;
+
+  constructor(name: string, retryAt: number) {
+    super(`${name} is unavailable right now (circuit open), retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = new Date(retryAt).toISOString();
+  }
+}
+
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private probeInFlight = false;
+  private lastFailure?: { message: string; at: string };
+  private lastSuccessAt?: string;
+  private totalTrips = 0;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  // Ask before each request; throws CircuitOpenError when it should not be made
+  acquire(): void {
+    if (this.state === 'open') {
+      const retryAt = (this.openedAt ?? 0) + this.options.cooldownMs;
+      if (Date.now() < retryAt) throw new CircuitOpenError(this.name, retryAt);
+      this.state = 'half_open';
+      console.log(`🔌 ${this.name} circuit half-open, sending a probe request`);
+    }
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) throw new CircuitOpenError(this.name, Date.now() + this.options.cooldownMs);
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`✅ ${this.name} circuit closed again`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+    this.openedAt = undefined;
+    this.lastSuccessAt = new Date().toISOString();
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    this.lastFailure = {
+      message: error instanceof Error ? error.message : String(error),
+      at: new Date().toISOString()
+    };
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        this.totalTrips++;
+        console.warn(`🚨 ${this.name} circuit open after ${this.consecutiveFailures} consecutive failure(s)`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  // A request that ended without telling us anything about the upstream (e.g. aborted or a 4xx)
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  // True while requests are being refused outright
+  isOpen(): boolean {
+    return this.state === 'open' && Date.now() < (this.openedAt ?? 0) + this.options.cooldownMs;
+  }
+
+  snapshot(): CircuitSnapshot {
+    const open = this.state === 'open';
+    return {
+      name: this.name,
+      state: open && !this.isOpen() ? 'half_open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.options.failureThreshold,
+      cooldownMs: this.options.cooldownMs,
+      openedAt: open && this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: open && this.openedAt ? new Date(this.openedAt + this.options.cooldownMs).toISOString() : undefined,
+      lastFailure: this.lastFailure,
+      lastSuccessAt: this.lastSuccessAt,
+      totalTrips: this.totalTrips
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import { createCollection } from './storage';
+import { onUserEvent } from './userEvents';
+import { getSession, SessionMessage } from './sessionStore';
+import { detectSubject } from './subjectDetector';
+
+export interface Flashcard {
+  id: string;
+  userId: string;
+  sessionId: string;
+  // The session message the card was made from, so a session is never carded twice
+  sourceMessageId: string;
+  front: string;
+  back: string;
+  subject?: string;
+  // SM-2 scheduling state
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  createdAt: string;
+  lastReviewedAt?: string;
+  lastGrade?: number;
+}
+
+export interface ReviewResult {
+  card?: Flashcard;
+  error?: { status: number; error: string; code: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Grades are SM-2's 0-5 recall quality; anything below this counts as forgotten
+const PASSING_GRADE = 3;
+const MAX_ANSWER_SENTENCES = 3;
+const MIN_QUESTION_LENGTH = 8;
+const QUESTION_PATTERN = /\?\s*$|^(what|why|how|when|where|who|which|explain|describe|define|can you|could you|tell me)\b/i;
+
+const flashcards = createCollection<Flashcard>('flashcards');
+
+// Keep the first few sentences of the captain's reply as the card's answer
+function condenseAnswer(text: string): string {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) ?? [text];
+  return sentences.slice(0, MAX_ANSWER_SENTENCES).map(sentence => sentence.trim()).join(' ');
+}
+
+// Pair each question the student asked with the reply that followed it
+export function extractCardCandidates(messages: SessionMessage[]): Array<{ sourceMessageId: string; front: string; back: string }> {
+  const candidates: Array<{ sourceMessageId: string; front: string; back: string }> = [];
+
+  messages.forEach((message, index) => {
+    const reply = messages[index + 1];
+    const question = message.content.trim();
+    if (message.role !== 'user' || reply?.role !== 'assistant') return;
+    if (question.length < MIN_QUESTION_LENGTH || !QUESTION_PATTERN.test(question)) return;
+
+    candidates.push({
+      sourceMessageId: message.id,
+      front: question,
+      back: condenseAnswer(reply.content)
+    });
+  });
+
+  return candidates;
+}
+
+async function listAllCards(userId: string): Promise<Flashcard[]> {
+  const entries = await flashcards.entries();
+  return entries.map(([, card]) => card).filter(card => card.userId === userId);
+}
+
+// Turn a session's question/answer pairs into new cards, skipping ones already made
+export async function createFlashcardsFromSession(sessionId: string): Promise<Flashcard[]> {
+  const session = await getSession(sessionId);
+  if (!session) return [];
+
+  const existing = new Set((await listAllCards(session.userId)).map(card => card.sourceMessageId));
+  const now = new Date().toISOString();
+  const created: Flashcard[] = [];
+
+  for (const candidate of extractCardCandidates(session.messages)) {
+    if (existing.has(candidate.sourceMessageId)) continue;
+
+    const card: Flashcard = {
+      id: randomUUID(),
+      userId: session.userId,
+      sessionId,
+      ...candidate,
+      subject: detectSubject(candidate.front) ?? (session.subject !== 'General' ? session.subject : undefined),
+      easeFactor: INITIAL_EASE,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: now,
+      createdAt: now
+    };
+    await flashcards.set(card.id, card);
+    created.push(card);
+  }
+
+  if (created.length > 0) {
+    console.log(`🃏 ${created.length} flashcard(s) created from session ${sessionId}`);
+  }
+  return created;
+}
+
+export async function listFlashcards(userId: string, options: { dueOnly?: boolean } = {}): Promise<Flashcard[]> {
+  const now = Date.now();
+  const cards = await listAllCards(userId);
+
+  return cards
+    .filter(card => !options.dueOnly || Date.parse(card.dueAt) <= now)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+export async function getDueSummary(userId: string): Promise<{ dueCount: number; totalCount: number; nextDueAt?: string }> {
+  const cards = await listFlashcards(userId);
+  const now = Date.now();
+  const upcoming = cards.find(card => Date.parse(card.dueAt) > now);
+
+  return {
+    dueCount: cards.filter(card => Date.parse(card.dueAt) <= now).length,
+    totalCount: cards.length,
+    nextDueAt: upcoming?.dueAt
+  };
+}
+
+// SM-2: a failed recall starts the card over; a passing one grows the interval
+// by the ease factor, which itself drifts with how hard the recall was.
+export function scheduleReview(card: Flashcard, grade: number, reviewedAt = new Date()): Flashcard {
+  const passed = grade >= PASSING_GRADE;
+  const repetitions = passed ? card.repetitions + 1 : 0;
+
+  let intervalDays = 1;
+  if (passed && repetitions === 2) intervalDays = 6;
+  if (passed && repetitions > 2) intervalDays = Math.round(card.intervalDays * card.easeFactor);
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)
+  );
+
+  return {
+    ...card,
+    easeFactor: Number(easeFactor.toFixed(2)),
+    intervalDays,
+    repetitions,
+    lapses: passed ? card.lapses : card.lapses + 1,
+    dueAt: new Date(reviewedAt.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: reviewedAt.toISOString(),
+    lastGrade: grade
+  };
+}
+
+export async function reviewFlashcard(cardId: string, grade: number, userId?: string): Promise<ReviewResult> {
+  const card = await flashcards.get(cardId);
+  if (!card) {
+    return { error: { status: 404, error: 'Flashcard not found', code: 'FLASHCARD_NOT_FOUND' } };
+  }
+  if (userId && card.userId !== userId) {
+    return { error: { status: 403, error: 'Flashcard belongs to another user', code: 'FLASHCARD_FORBIDDEN' } };
+  }
+
+  const reviewed = scheduleReview(card, grade);
+  await flashcards.set(cardId, reviewed);
+  console.log(`🧠 Flashcard ${cardId} graded ${grade}, next review in ${reviewed.intervalDays} day(s)`);
+  return { card: reviewed };
+}
+
+export async function deleteFlashcard(cardId: string, userId?: string): Promise<ReviewResult> {
+  const card = await flashcards.get(cardId);
+  if (!card) {
+    return { error: { status: 404, error: 'Flashcard not found', code: 'FLASHCARD_NOT_FOUND' } };
+  }
+  if (userId && card.userId !== userId) {
+    return { error: { status: 403, error: 'Flashcard belongs to another user', code: 'FLASHCARD_FORBIDDEN' } };
+  }
+
+  await flashcards.delete(cardId);
+  return { card };
+}
+
+// Finishing a session turns what was discussed into cards automatically
+onUserEvent(async (event) => {
+  if (event.type !== 'session_completed' || typeof event.data?.sessionId !== 'string') return;
+  await createFlashcardsFromSession(event.data.sessionId);
+});
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { createCollection } from './storage';
+import { emitUserEvent } from './userEvents';
+import { registerPromptContext } from './promptContext';
+import { getSession } from './sessionStore';
+
+// Pomodoro-style focus sessions: one work phase followed by one break.
+// Time is tracked as elapsed running time so pauses simply stop the clock;
+// phase changes are worked out lazily whenever a session is read. Anything that
+// reads a session and writes it back runs in that session's queue, so overlapping
+// reads (timer polls, routes, chat prompts) never reward the same work phase twice.
+
+export type FocusStatus = 'running' | 'paused' | 'completed' | 'stopped';
+
+export type FocusPhase = 'work' | 'break' | 'done';
+
+export interface FocusSession {
+  id: string;
+  userId: string;
+  chatSessionId?: string;
+  workMinutes: number;
+  breakMinutes: number;
+  status: FocusStatus;
+  // Running time banked before the current run (ms)
+  elapsedMs: number;
+  // When the clock was last started; unset while paused or finished
+  runningSince?: string;
+  startedAt: string;
+  pausedAt?: string;
+  workCompletedAt?: string;
+  endedAt?: string;
+}
+
+export interface FocusSessionView extends FocusSession {
+  phase: FocusPhase;
+  elapsedSeconds: number;
+  phaseRemainingSeconds: number;
+  focusedMinutes: number;
+}
+
+export interface FocusSessionInput {
+  workMinutes?: number;
+  breakMinutes?: number;
+  chatSessionId?: string;
+}
+
+export interface FocusResult {
+  focusSession?: FocusSessionView;
+  error?: { status: number; error: string; code: string };
+}
+
+export const DEFAULT_WORK_MINUTES = 25;
+export const DEFAULT_BREAK_MINUTES = 5;
+const MAX_WORK_MINUTES = 180;
+const MAX_BREAK_MINUTES = 60;
+// How long after a session ends the tutor is still reminded to wrap it up
+const WRAP_UP_WINDOW_MS = 10 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const focusSessions = createCollection<FocusSession>('focus-sessions');
+
+// Queue key -> tail of the updates queued for it. Keys are focus session ids, plus
+// `user:<id>` for starts, which must see every session the user already has.
+const updateQueues = new Map<string, Promise<void>>();
+
+// Run an update once every earlier update under the same key has settled
+function queueUpdate<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const result = (updateQueues.get(key) ?? Promise.resolve()).then(update);
+  const tail = result.then(() => undefined, () => undefined);
+  updateQueues.set(key, tail);
+  void tail.then(() => {
+    if (updateQueues.get(key) === tail) updateQueues.delete(key);
+  });
+  return result;
+}
+
+function isOpen(session: FocusSession): boolean {
+  return session.status === 'running' || session.status === 'paused';
+}
+
+function elapsedMsAt(session: FocusSession, now: number): number {
+  const running = session.runningSince ? now - Date.parse(session.runningSince) : 0;
+  return session.elapsedMs + Math.max(running, 0);
+}
+
+function toView(session: FocusSession, now = Date.now()): FocusSessionView {
+  const workMs = session.workMinutes * MINUTE_MS;
+  const totalMs = workMs + session.breakMinutes * MINUTE_MS;
+  const elapsed = Math.min(elapsedMsAt(session, now), totalMs);
+
+  let phase: FocusPhase = 'done';
+  let remainingMs = 0;
+  if (isOpen(session)) {
+    phase = elapsed < workMs ? 'work' : 'break';
+    remainingMs = phase === 'work' ? workMs - elapsed : totalMs - elapsed;
+  }
+
+  return {
+    ...session,
+    phase,
+    elapsedSeconds: Math.floor(elapsed / 1000),
+    phaseRemainingSeconds: Math.ceil(remainingMs / 1000),
+    focusedMinutes: Math.floor(Math.min(elapsed, workMs) / MINUTE_MS)
+  };
+}
+
+// Move a session along its timeline: emit the focus reward when the work phase
+// has run its course and close the session once the break is over.
+// Only call this from inside the session's queue, with the stored copy.
+async function advanceFocusSession(session: FocusSession): Promise<FocusSession> {
+  if (!isOpen(session)) return session;
+
+  const now = Date.now();
+  const elapsed = elapsedMsAt(session, now);
+  const workMs = session.workMinutes * MINUTE_MS;
+  const totalMs = workMs + session.breakMinutes * MINUTE_MS;
+  let updated = session;
+
+  if (!session.workCompletedAt && elapsed >= workMs) {
+    const finishedAt = new Date(now - (elapsed - workMs)).toISOString();
+    updated = { ...updated, workCompletedAt: finishedAt };
+    await focusSessions.set(session.id, updated);
+    console.log(`⏰ Focus session ${session.id} finished its ${session.workMinutes}-minute work phase`);
+    await emitUserEvent(session.userId, 'focus_session_completed', {
+      focusSessionId: session.id,
+      chatSessionId: session.chatSessionId,
+      minutes: session.workMinutes
+    });
+  }
+
+  if (elapsed >= totalMs) {
+    updated = {
+      ...updated,
+      status: 'completed',
+      elapsedMs: totalMs,
+      runningSince: undefined,
+      endedAt: new Date(now - (elapsed - totalMs)).toISOString()
+    };
+    await focusSessions.set(session.id, updated);
+    console.log(`🏁 Focus session ${session.id} completed`);
+  }
+
+  return updated;
+}
+
+// Advance a session that may be stale, re-reading it once its turn in the queue comes
+async function refreshFocusSession(session: FocusSession): Promise<FocusSession> {
+  if (!isOpen(session)) return session;
+  return queueUpdate(session.id, async () => advanceFocusSession(await focusSessions.get(session.id) ?? session));
+}
+
+export function validateFocusInput(input: FocusSessionInput): string[] {
+  const errors: string[] = [];
+  const inRange = (value: number, max: number) => Number.isInteger(value) && value >= 1 && value <= max;
+
+  if (input.workMinutes !== undefined && !inRange(input.workMinutes, MAX_WORK_MINUTES)) {
+    errors.push(`workMinutes must be a whole number between 1 and ${MAX_WORK_MINUTES}`);
+  }
+  if (input.breakMinutes !== undefined && !inRange(input.breakMinutes, MAX_BREAK_MINUTES)) {
+    errors.push(`breakMinutes must be a whole number between 1 and ${MAX_BREAK_MINUTES}`);
+  }
+  if (input.chatSessionId !== undefined && (typeof input.chatSessionId !== 'string' || !input.chatSessionId.trim())) {
+    errors.push('chatSessionId must be a non-empty string');
+  }
+
+  return errors;
+}
+
+export async function listFocusSessions(userId: string): Promise<FocusSessionView[]> {
+  const entries = await focusSessions.entries();
+  const owned = entries.map(([, session]) => session).filter(session => session.userId === userId);
+  const refreshed = await Promise.all(owned.map(refreshFocusSession));
+
+  return refreshed
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .map(session => toView(session));
+}
+
+// The user's running or paused session, if any
+export async function getCurrentFocusSession(userId: string): Promise<FocusSessionView | undefined> {
+  const sessions = await listFocusSessions(userId);
+  return sessions.find(session => isOpen(session));
+}
+
+// The user's most recent session, even if it is already over
+async function getLatestFocusSession(userId: string): Promise<FocusSessionView | undefined> {
+  const sessions = await listFocusSessions(userId);
+  return sessions[0];
+}
+
+export function startFocusSession(userId: string, input: FocusSessionInput = {}): Promise<FocusResult> {
+  // Two overlapping starts must not both find no session in progress
+  return queueUpdate(`user:${userId}`, async () => {
+    const current = await getCurrentFocusSession(userId);
+    if (current) {
+      return { error: { status: 409, error: 'A focus session is already in progress', code: 'FOCUS_SESSION_IN_PROGRESS' } };
+    }
+
+    // Only the user's own conversation can be linked, since its id is echoed in events
+    if (input.chatSessionId !== undefined) {
+      const chatSession = await getSession(input.chatSessionId);
+      if (!chatSession) {
+        return { error: { status: 404, error: 'Conversation session not found', code: 'SESSION_NOT_FOUND' } };
+      }
+      if (chatSession.userId !== userId) {
+        return { error: { status: 403, error: 'Session belongs to another user', code: 'SESSION_FORBIDDEN' } };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const session: FocusSession = {
+      id: randomUUID(),
+      userId,
+      chatSessionId: input.chatSessionId,
+      workMinutes: input.workMinutes ?? DEFAULT_WORK_MINUTES,
+      breakMinutes: input.breakMinutes ?? DEFAULT_BREAK_MINUTES,
+      status: 'running',
+      elapsedMs: 0,
+      runningSince: now,
+      startedAt: now
+    };
+
+    await focusSessions.set(session.id, session);
+    console.log(`🍅 Focus session ${session.id} started for user ${userId} (${session.workMinutes}/${session.breakMinutes} min)`);
+    return { focusSession: toView(session) };
+  });
+}
+
+// Load a session for a state change, checking ownership and that it is still open.
+// Callers run inside the session's queue.
+async function findOpenFocusSession(focusSessionId: string, userId?: string): Promise<{ session?: FocusSession; error?: FocusResult['error'] }> {
+  const stored = await focusSessions.get(focusSessionId);
+  if (!stored) {
+    return { error: { status: 404, error: 'Focus session not found', code: 'FOCUS_SESSION_NOT_FOUND' } };
+  }
+  if (userId && stored.userId !== userId) {
+    return { error: { status: 403, error: 'Focus session belongs to another user', code: 'FOCUS_SESSION_FORBIDDEN' } };
+  }
+
+  const session = await advanceFocusSession(stored);
+  if (!isOpen(session)) {
+    return { error: { status: 409, error: `Focus session is already ${session.status}`, code: 'INVALID_FOCUS_STATE' } };
+  }
+  return { session };
+}
+
+export function pauseFocusSession(focusSessionId: string, userId?: string): Promise<FocusResult> {
+  return queueUpdate(focusSessionId, async () => {
+    const { session, error } = await findOpenFocusSession(focusSessionId, userId);
+    if (!session) return { error };
+    if (session.status === 'paused') {
+      return { error: { status: 409, error: 'Focus session is already paused', code: 'INVALID_FOCUS_STATE' } };
+    }
+
+    const now = Date.now();
+    const paused: FocusSession = {
+      ...session,
+      status: 'paused',
+      elapsedMs: elapsedMsAt(session, now),
+      runningSince: undefined,
+      pausedAt: new Date(now).toISOString()
+    };
+    await focusSessions.set(paused.id, paused);
+    console.log(`⏸️ Focus session ${paused.id} paused`);
+    return { focusSession: toView(paused, now) };
+  });
+}
+
+export function resumeFocusSession(focusSessionId: string, userId?: string): Promise<FocusResult> {
+  return queueUpdate(focusSessionId, async () => {
+    const { session, error } = await findOpenFocusSession(focusSessionId, userId);
+    if (!session) return { error };
+    if (session.status === 'running') {
+      return { error: { status: 409, error: 'Focus session is already running', code: 'INVALID_FOCUS_STATE' } };
+    }
+
+    const resumed: FocusSession = {
+      ...session,
+      status: 'running',
+      runningSince: new Date().toISOString(),
+      pausedAt: undefined
+    };
+    await focusSessions.set(resumed.id, resumed);
+    console.log(`▶️ Focus session ${resumed.id} resumed`);
+    return { focusSession: toView(resumed) };
+  });
+}
+
+// End a session early. Stopping during the break still counts as completed,
+// since the work phase (and its reward) is already done.
+export function stopFocusSession(focusSessionId: string, userId?: string): Promise<FocusResult> {
+  return queueUpdate(focusSessionId, async () => {
+    const { session, error } = await findOpenFocusSession(focusSessionId, userId);
+    if (!session) return { error };
+
+    const now = Date.now();
+    const stopped: FocusSession = {
+      ...session,
+      status: session.workCompletedAt ? 'completed' : 'stopped',
+      elapsedMs: elapsedMsAt(session, now),
+      runningSince: undefined,
+      endedAt: new Date(now).toISOString()
+    };
+    await focusSessions.set(stopped.id, stopped);
+    console.log(`⏹️ Focus session ${stopped.id} ended (${stopped.status})`);
+    return { focusSession: toView(stopped, now) };
+  });
+}
+
+// Tell the tutor where the student is in their focus session so it can keep
+// them on task, cheer on the break and help wrap up afterwards.
+export async function describeFocusState(userId: string): Promise<string | undefined> {
+  const session = await getLatestFocusSession(userId);
+  if (!session) return undefined;
+
+  const remainingMinutes = Math.max(1, Math.ceil(session.phaseRemainingSeconds / 60));
+
+  if (session.status === 'paused') {
+    return `The student paused their ${session.workMinutes}-minute focus session. Gently encourage them to jump back in when ready.`;
+  }
+  if (session.phase === 'work') {
+    return session.elapsedSeconds < 60
+      ? `The student just started a ${session.workMinutes}-minute focus session. Kick it off with energy and help them pick one clear goal.`
+      : `The student is in a focus session with about ${remainingMinutes} minute(s) of work left. Keep answers tight and on task.`;
+  }
+  if (session.phase === 'break') {
+    return `The student just finished a ${session.workMinutes}-minute focus session and is on a break (${remainingMinutes} minute(s) left). Celebrate the effort and encourage them to rest away from the screen.`;
+  }
+  if (session.endedAt && Date.now() - Date.parse(session.endedAt) < WRAP_UP_WINDOW_MS) {
+    return session.status === 'completed'
+      ? `The student just wrapped up a focus session (${session.focusedMinutes} focused minutes). Help them wrap up: recap what they covered and suggest the next step.`
+      : `The student ended their focus session early after ${session.focusedMinutes} minute(s). Be supportive and help them plan a shorter next session.`;
+  }
+  return undefined;
+}
+
+registerPromptContext(describeFocusState);
@@ -0,0 +1,173 @@
+import { checkStorage, STORAGE_DRIVER } from './storage';
+import { OMNIDIMENSION_API_KEY, omnidimensionBreaker } from './omnidimensionClient';
+import { checkOmnidimensionHealth, checkFallbackProvider } from './omnidimensionServices';
+import { providerChain } from './providers';
+
+// Probes each dependency on a timer and keeps the latest result, so health routes
+// answer instantly instead of waiting on upstream timeouts.
+
+export type DependencyName = 'omnidimension' | 'storage' | 'fallback_provider';
+export type DependencyStatus = 'up' | 'degraded' | 'down' | 'unknown';
+export type OverallStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface DependencyHealth {
+  name: DependencyName;
+  status: DependencyStatus;
+  // How long the last probe took, successful or not
+  latencyMs?: number;
+  lastCheckedAt?: string;
+  lastSuccessAt?: string;
+  lastError?: { message: string; at: string };
+  details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  status: OverallStatus;
+  // Whether students can be served: data can be stored and something can answer chat
+  ready: boolean;
+  dependencies: DependencyHealth[];
+  checkedAt?: string;
+}
+
+interface ProbeOutcome {
+  status?: 'up' | 'degraded';
+  details?: Record<string, unknown>;
+}
+
+interface Probe {
+  name: DependencyName;
+  run: (timeoutMs: number) => Promise<ProbeOutcome>;
+}
+
+const PROBE_INTERVAL_MS = Number(process.env.HEALTH_PROBE_INTERVAL_MS) || 30000;
+const PROBE_TIMEOUT_MS = Number(process.env.HEALTH_PROBE_TIMEOUT_MS) || 5000;
+
+const PROBES: Probe[] = [
+  {
+    name: 'omnidimension',
+    run: async (timeoutMs) => {
+      if (!OMNIDIMENSION_API_KEY) {
+        throw new Error('OMNIDIMENSION_API_KEY is not configured');
+      }
+      const endpoint = await checkOmnidimensionHealth(timeoutMs);
+      return { details: { endpoint } };
+    }
+  },
+  {
+    // A throwaway write and read in the data directory
+    name: 'storage',
+    run: async () => {
+      await checkStorage();
+      return { details: { driver: STORAGE_DRIVER } };
+    }
+  },
+  {
+    name: 'fallback_provider',
+    run: async () => {
+      await checkFallbackProvider();
+      return { details: { provider: 'local', chain: providerChain.map(provider => provider.name) } };
+    }
+  }
+];
+
+const results = new Map<DependencyName, DependencyHealth>(
+  PROBES.map(probe => [probe.name, { name: probe.name, status: 'unknown' }])
+);
+let lastRunAt: string | undefined;
+let running: Promise<void> | undefined;
+let timer: NodeJS.Timeout | undefined;
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timeout: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timeout = setTimeout(() => reject(new Error(`${name} probe timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timeout));
+}
+
+async function runProbe(probe: Probe): Promise<void> {
+  const previous = results.get(probe.name) ?? { name: probe.name, status: 'unknown' };
+  const started = Date.now();
+  let next: DependencyHealth;
+
+  try {
+    const outcome = await withTimeout(probe.run(PROBE_TIMEOUT_MS), PROBE_TIMEOUT_MS, probe.name);
+    const at = new Date().toISOString();
+    next = {
+      ...previous,
+      status: outcome.status ?? 'up',
+      latencyMs: Date.now() - started,
+      lastCheckedAt: at,
+      lastSuccessAt: at,
+      details: outcome.details
+    };
+  } catch (error) {
+    const at = new Date().toISOString();
+    next = {
+      ...previous,
+      status: 'down',
+      latencyMs: Date.now() - started,
+      lastCheckedAt: at,
+      lastError: { message: error instanceof Error ? error.message : String(error), at }
+    };
+  }
+
+  if (next.status !== previous.status) {
+    const reason = next.status === 'down' ? `: ${next.lastError?.message}` : '';
+    console.log(`🩺 ${probe.name} is ${next.status}${reason}`);
+  }
+  results.set(probe.name, next);
+}
+
+// Probe every dependency once; overlapping calls share the run in progress
+export function runHealthProbes(): Promise<void> {
+  if (!running) {
+    running = Promise.all(PROBES.map(runProbe))
+      .then(() => { lastRunAt = new Date().toISOString(); })
+      .finally(() => { running = undefined; });
+  }
+  return running;
+}
+
+// Resolves once the first round of probes is done; later rounds run on the timer
+export function startHealthMonitor(): Promise<void> {
+  if (!timer) {
+    timer = setInterval(() => void runHealthProbes(), PROBE_INTERVAL_MS);
+    timer.unref();
+  }
+  return runHealthProbes();
+}
+
+// The circuit breaker knows about failures between probes, so it overrides a stale "up"
+function withLiveState(health: DependencyHealth): DependencyHealth {
+  if (health.name !== 'omnidimension') return health;
+
+  const circuitBreaker = omnidimensionBreaker.snapshot();
+  let status = health.status;
+  if (circuitBreaker.state === 'open') {
+    status = 'down';
+  } else if (circuitBreaker.state === 'half_open' && status === 'up') {
+    status = 'degraded';
+  }
+  return { ...health, status, details: { ...health.details, circuitBreaker } };
+}
+
+export function getDependencyHealth(name: DependencyName): DependencyHealth {
+  return withLiveState(results.get(name) ?? { name, status: 'unknown' });
+}
+
+export function getHealthReport(): HealthReport {
+  const dependencies = PROBES.map(probe => getDependencyHealth(probe.name));
+  const available = (name: DependencyName) => {
+    const status = dependencies.find(dependency => dependency.name === name)?.status;
+    return status === 'up' || status === 'degraded';
+  };
+
+  // Chat falls back to the local provider, so Omnidimension alone being down only degrades
+  const ready = available('storage') && (available('omnidimension') || available('fallback_provider'));
+  const status: OverallStatus = !ready
+    ? 'unhealthy'
+    : dependencies.every(dependency => dependency.status === 'up') ? 'healthy' : 'degraded';
+
+  return { status, ready, dependencies, checkedAt: lastRunAt };
+}
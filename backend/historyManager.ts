@@ -0,0 +1,135 @@
+import { ChatMessage, completeWithProviders, estimateTokens } from './providers';
+import { ConversationSession, HistorySummary, saveHistorySummary } from './sessionStore';
+
+// Keeps the history sent with each chat turn inside a per-model token budget: the most
+// recent turns go word for word, older ones are folded into a summary stored on the session.
+
+export interface PreparedHistory {
+  history: ChatMessage[];
+  summary?: string;
+  historyTokens: number;
+  summarizedMessages: number;
+}
+
+// History budgets in tokens; HISTORY_TOKEN_BUDGETS=model=tokens,... adds or overrides models
+const DEFAULT_MODEL_BUDGETS: Record<string, number> = {
+  'gpt-4o-mini': 4000,
+  'gpt-4o': 8000,
+  'gpt-3.5-turbo': 2000
+};
+const DEFAULT_BUDGET = Number(process.env.HISTORY_TOKEN_BUDGET) || 3000;
+// Part of the budget reserved for the summary; the rest is for verbatim turns
+const SUMMARY_SHARE = 0.25;
+// When folding, trim the verbatim turns down to this share of their budget so the
+// summary is not rewritten on every message
+const FOLD_TARGET = 0.6;
+// Role marker and separators the model sees for every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const EXCERPT_LENGTH = 140;
+
+const SUMMARIZER_PROMPT = `You maintain a running summary of a tutoring conversation between a student and their AI tutor.
+Merge the previous summary with the new turns. Keep the topics covered, what the student understood or struggled with,
+answers and examples the tutor gave that may be referred back to, and any open questions. Be concise and factual.
+Reply with the summary only, starting with "Summary:".`;
+
+function loadModelBudgets(): Record<string, number> {
+  const budgets = { ...DEFAULT_MODEL_BUDGETS };
+  for (const entry of (process.env.HISTORY_TOKEN_BUDGETS ?? '').split(',')) {
+    const [model, tokens] = entry.split('=').map(part => part?.trim());
+    const value = Number(tokens);
+    if (model && Number.isFinite(value) && value > 0) budgets[model] = value;
+  }
+  return budgets;
+}
+
+const MODEL_BUDGETS = loadModelBudgets();
+
+export function historyBudgetFor(model: string): number {
+  return MODEL_BUDGETS[model] ?? DEFAULT_BUDGET;
+}
+
+export function messageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function excerpt(text: string): string {
+  const firstSentence = text.trim().split(/(?<=[.!?])\s/)[0];
+  return firstSentence.length > EXCERPT_LENGTH ? `${firstSentence.substring(0, EXCERPT_LENGTH - 3)}...` : firstSentence;
+}
+
+// Without a model, keep one line per message and drop the oldest lines once over budget
+function extractiveSummary(previous: string | undefined, turns: ChatMessage[], maxTokens: number): string {
+  const lines = [
+    ...(previous?.split('\n').filter(line => line.trim()) ?? []),
+    ...turns.map(turn => `- ${turn.role === 'user' ? 'Student' : 'Tutor'}: ${excerpt(turn.content)}`)
+  ];
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > maxTokens) {
+    lines.shift();
+  }
+  return lines.join('\n');
+}
+
+async function summarize(previous: string | undefined, turns: ChatMessage[], model: string, maxTokens: number): Promise<string> {
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${turn.content}`).join('\n');
+
+  try {
+    const result = await completeWithProviders({
+      message: `Previous summary:\n${previous ?? '(none)'}\n\nNew turns:\n${transcript}`,
+      history: [],
+      systemPrompt: SUMMARIZER_PROMPT,
+      model,
+      temperature: 0.2,
+      maxTokens
+    });
+
+    // Anything else is a provider that answered as a tutor instead of summarizing
+    const summary = result.text.match(/^\s*summary:\s*([\s\S]+)/i)?.[1]?.trim();
+    if (summary && estimateTokens(summary) <= maxTokens) return summary;
+  } catch (error) {
+    console.warn('⚠️ History summarization failed, keeping excerpts instead:', error instanceof Error ? error.message : error);
+  }
+
+  return extractiveSummary(previous, turns, maxTokens);
+}
+
+// Pick the history for the next turn, folding turns that no longer fit into the
+// session's summary first
+export async function prepareHistory(session: ConversationSession, model: string): Promise<PreparedHistory> {
+  const budget = historyBudgetFor(model);
+  const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+  const verbatimBudget = budget - summaryBudget;
+
+  const messages: ChatMessage[] = session.messages.map(({ role, content }) => ({ role, content }));
+  let summary = session.historySummary;
+  const covered = Math.min(summary?.coveredMessages ?? 0, messages.length);
+  const pending = messages.slice(covered);
+  const pendingTokens = pending.reduce((total, message) => total + messageTokens(message), 0);
+
+  let keepFrom = covered;
+  if (pendingTokens > verbatimBudget) {
+    // Walk back from the newest message while it fits, but always keep the last turn
+    let kept = 0;
+    keepFrom = messages.length;
+    while (keepFrom > covered && (messages.length - keepFrom < 2 || kept + messageTokens(messages[keepFrom - 1]) <= verbatimBudget * FOLD_TARGET)) {
+      keepFrom--;
+      kept += messageTokens(messages[keepFrom]);
+    }
+    // Start the verbatim part on a student message so no reply loses its question
+    while (keepFrom < messages.length && messages[keepFrom].role !== 'user') keepFrom++;
+
+    if (keepFrom > covered) {
+      const text = await summarize(summary?.text, messages.slice(covered, keepFrom), model, summaryBudget);
+      summary = { text, coveredMessages: keepFrom, tokens: estimateTokens(text), updatedAt: new Date().toISOString() };
+      await saveHistorySummary(session.id, summary);
+      console.log(`🗜️ Folded ${keepFrom - covered} message(s) of session ${session.id} into its summary (${summary.tokens} tokens)`);
+    }
+  }
+
+  const history = messages.slice(keepFrom);
+  return {
+    history,
+    summary: summary?.text,
+    historyTokens: history.reduce((total, message) => total + messageTokens(message), 0),
+    summarizedMessages: summary?.coveredMessages ?? 0
+  };
+}
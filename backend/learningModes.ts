@@ -0,0 +1,64 @@
+export type LearningMode = 'deep_dive' | 'quick_revision' | 'just_curious' | 'homework_help';
+
+export interface LearningModeDefinition {
+  id: LearningMode;
+  // Also the value analytics groups by, matching the voice agent's learning_mode variable
+  label: string;
+  emoji: string;
+  description: string;
+  // Added to the tutor's prompt for every turn in this mode
+  instructions: string;
+  maxTokens: number;
+}
+
+export const LEARNING_MODES: Record<LearningMode, LearningModeDefinition> = {
+  deep_dive: {
+    id: 'deep_dive',
+    label: 'Deep Dive',
+    emoji: '🔬',
+    description: 'Longer explanations with worked examples',
+    instructions: 'Explain thoroughly, ignoring any sentence limit above: start with the core idea, build it up step by step, give at least one concrete worked example, then check understanding with a question.',
+    maxTokens: 800
+  },
+  quick_revision: {
+    id: 'quick_revision',
+    label: 'Quick Revision',
+    emoji: '⚡',
+    description: 'Bullet-point summaries of the key facts',
+    instructions: 'Answer as a short bullet list of 3-5 key facts, definitions or formulas, one line each, then end with a single quick recall question. No long paragraphs.',
+    maxTokens: 250
+  },
+  just_curious: {
+    id: 'just_curious',
+    label: 'Just Curious',
+    emoji: '✨',
+    description: 'Short, fun answers that spark curiosity',
+    instructions: 'Keep it light and conversational: a short answer with one surprising fact or vivid analogy, then invite the student to ask more.',
+    maxTokens: 200
+  },
+  homework_help: {
+    id: 'homework_help',
+    label: 'Homework Help',
+    emoji: '📝',
+    description: 'Step-by-step guidance without giving the answer away',
+    instructions: 'Guide the student through the problem as numbered steps. Do not give the final answer outright; show the method, point out the next step and ask the student to try it.',
+    maxTokens: 500
+  }
+};
+
+export function isLearningMode(value: unknown): value is LearningMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEARNING_MODES, value);
+}
+
+// Error for an unusable mode parameter; leaving it out is fine
+export function validateLearningMode(value: unknown): string[] {
+  return value === undefined || value === null || isLearningMode(value)
+    ? []
+    : [`mode must be one of: ${Object.keys(LEARNING_MODES).join(', ')}`];
+}
+
+// The prompt note for a mode, in the same form as the other "current situation" notes
+export function learningModeNote(mode: LearningMode): string {
+  const definition = LEARNING_MODES[mode];
+  return `Learning mode is ${definition.label}. ${definition.instructions}`;
+}
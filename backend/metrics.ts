@@ -0,0 +1,220 @@
+import { RequestHandler } from 'express';
+import type { TokenUsage } from './providers/types';
+
+// Metrics in the Prometheus text format, kept in process. Counters and histograms are
+// updated as things happen; gauges are read from their source on each scrape.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  collect(): Promise<string[]>;
+}
+
+export type GaugeReading = number | Array<{ labels: Labels; value: number }>;
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Seconds; wide enough for both quick API calls and long streamed replies
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const registry: Metric[] = [];
+
+function register<T extends Metric>(metric: T): T {
+  registry.push(metric);
+  return metric;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+class Counter implements Metric {
+  readonly type = 'counter';
+  readonly name: string;
+  readonly help: string;
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(labels);
+    const current = this.series.get(key);
+    if (current) {
+      current.value += amount;
+    } else {
+      this.series.set(key, { labels, value: amount });
+    }
+  }
+
+  async collect(): Promise<string[]> {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+class Histogram implements Metric {
+  readonly type = 'histogram';
+  readonly name: string;
+  readonly help: string;
+  private readonly buckets: number[];
+  // Per-bucket counts, made cumulative when rendered
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let current = this.series.get(key);
+    if (!current) {
+      current = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, current);
+    }
+
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) current.counts[bucket]++;
+    current.sum += value;
+    current.count++;
+  }
+
+  async collect(): Promise<string[]> {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => {
+      let cumulative = 0;
+      const lines = this.buckets.map((bound, index) => {
+        cumulative += counts[index];
+        return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+      });
+      return [
+        ...lines,
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      ];
+    });
+  }
+}
+
+class Gauge implements Metric {
+  readonly type = 'gauge';
+  readonly name: string;
+  readonly help: string;
+  private readonly read: () => Promise<GaugeReading>;
+
+  constructor(name: string, help: string, read: () => Promise<GaugeReading>) {
+    this.name = name;
+    this.help = help;
+    this.read = read;
+  }
+
+  // A failing source leaves the gauge out of this scrape rather than failing it
+  async collect(): Promise<string[]> {
+    try {
+      const reading = await this.read();
+      const series = typeof reading === 'number' ? [{ labels: {}, value: reading }] : reading;
+      return series.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not read gauge ${this.name}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
+
+const httpRequests = register(new Counter(
+  'captain_focus_http_requests_total',
+  'HTTP requests handled, by method, route template and status code'
+));
+const httpDuration = register(new Histogram(
+  'captain_focus_http_request_duration_seconds',
+  'HTTP request latency by method and route template',
+  LATENCY_BUCKETS
+));
+const omnidimensionRequests = register(new Counter(
+  'captain_focus_omnidimension_requests_total',
+  'Omnidimension API calls by endpoint and status: the HTTP code, timeout, network_error or circuit_open'
+));
+const omnidimensionErrors = register(new Counter(
+  'captain_focus_omnidimension_errors_total',
+  'Failed Omnidimension API calls by status'
+));
+const omnidimensionDuration = register(new Histogram(
+  'captain_focus_omnidimension_request_duration_seconds',
+  'Omnidimension API call latency by method and endpoint, one observation per attempt',
+  LATENCY_BUCKETS
+));
+const chatReplies = register(new Counter(
+  'captain_focus_chat_replies_total',
+  'Tutor replies by provider and source: model, cache, or fallback for the scripted local provider'
+));
+const llmTokens = register(new Counter(
+  'captain_focus_llm_tokens_total',
+  'Tokens used by provider and model, split into prompt and completion'
+));
+
+// Gauges for values that live elsewhere, e.g. store sizes
+export function registerGauge(name: string, help: string, read: () => Promise<GaugeReading>): void {
+  register(new Gauge(name, help, read));
+}
+
+export async function renderMetrics(): Promise<string> {
+  const blocks = await Promise.all(registry.map(async metric => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...await metric.collect()
+  ].join('\n')));
+  return `${blocks.join('\n')}\n`;
+}
+
+// Counts every request and times it until the response is finished or abandoned.
+// Routes are labelled by their template so ids do not create new series.
+export function httpMetrics(): RequestHandler {
+  return (req, res, next) => {
+    const started = process.hrtime.bigint();
+
+    res.on('close', () => {
+      const route = req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+      httpDuration.observe({ method: req.method, route }, seconds);
+    });
+
+    next();
+  };
+}
+
+export function recordOmnidimensionCall(method: string, endpoint: string, status: string, seconds?: number): void {
+  omnidimensionRequests.inc({ method, endpoint, status });
+  if (!/^2\d\d$/.test(status)) {
+    omnidimensionErrors.inc({ status });
+  }
+  if (seconds !== undefined) {
+    omnidimensionDuration.observe({ method, endpoint }, seconds);
+  }
+}
+
+// The fallback share is what tells operators students are getting scripted replies
+export function recordChatReply(provider: string, cached: boolean): void {
+  const source = cached ? 'cache' : provider === 'local' ? 'fallback' : 'model';
+  chatReplies.inc({ provider, source });
+}
+
+export function recordTokenUsage(provider: string, model: string, usage: TokenUsage): void {
+  llmTokens.inc({ provider, model, type: 'prompt' }, usage.promptTokens);
+  llmTokens.inc({ provider, model, type: 'completion' }, usage.completionTokens);
+}
@@ -0,0 +1,165 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker';
+import { recordOmnidimensionCall } from './metrics';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Safe to send again even though the method is not (e.g. a chat completion POST)
+    idempotent?: boolean;
+    // Attempts already retried; set by the retry interceptor
+    retryCount?: number;
+    // false skips retries, e.g. for health probes that run again on their own schedule
+    retry?: boolean;
+    // When this attempt was sent, for latency metrics
+    startedAt?: number;
+  }
+}
+
+// Use environment variable with fallback
+export const OMNIDIMENSION_API_KEY = process.env.OMNIDIMENSION_API_KEY || process.env.OMNIDIMENSION_API_KEY;
+export const OMNIDIMENSION_BASE_URL = process.env.OMNIDIMENSION_BASE_URL || 'https://api.omnidim.io';
+
+const TIMEOUT_MS = Number(process.env.OMNIDIMENSION_TIMEOUT_MS) || 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const MAX_RETRIES_LIMIT = 5;
+const MAX_RETRIES = parseMaxRetries(process.env.OMNIDIMENSION_MAX_RETRIES);
+const RETRY_BASE_DELAY_MS = Number(process.env.OMNIDIMENSION_RETRY_BASE_MS) || 300;
+const RETRY_MAX_DELAY_MS = 5000;
+// A longer Retry-After than this is not worth waiting for inside a student's request
+const MAX_RETRY_AFTER_MS = 10000;
+const SAFE_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const omnidimensionBreaker = new CircuitBreaker('Omnidimension API', {
+  failureThreshold: Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5,
+  cooldownMs: Number(process.env.CIRCUIT_COOLDOWN_MS) || 30000
+});
+
+// A whole number from 0 to MAX_RETRIES_LIMIT; unset or non-numeric values use the default
+function parseMaxRetries(value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(parsed)) {
+    if (value !== undefined) console.warn(`⚠️ OMNIDIMENSION_MAX_RETRIES="${value}" is not a number, using ${DEFAULT_MAX_RETRIES}`);
+    return DEFAULT_MAX_RETRIES;
+  }
+  return Math.min(Math.max(Math.floor(parsed), 0), MAX_RETRIES_LIMIT);
+}
+
+// Axios instance with default configuration
+export const omnidimensionAPI = axios.create({
+  baseURL: OMNIDIMENSION_BASE_URL,
+  timeout: TIMEOUT_MS,
+  headers: {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Captain-Focus-Backend/1.0.0'
+  }
+});
+
+// Timeouts, dropped connections, rate limits and server errors say the upstream is in
+// trouble; other 4xx responses are our own mistakes and count as neither success nor failure
+function isUpstreamFailure(error: AxiosError): boolean {
+  const status = error.response?.status;
+  return status === undefined || RETRYABLE_STATUSES.includes(status);
+}
+
+// Retry-After as seconds or an HTTP date
+function retryAfterMs(error: AxiosError): number | undefined {
+  const header = error.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, unless the upstream said how long to wait
+function retryDelayMs(error: AxiosError, attempt: number): number | undefined {
+  const requested = retryAfterMs(error);
+  if (requested !== undefined) {
+    return requested <= MAX_RETRY_AFTER_MS ? requested : undefined;
+  }
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+function canRetry(config: InternalAxiosRequestConfig | undefined, error: AxiosError): config is InternalAxiosRequestConfig {
+  if (!config || config.retry === false || config.signal?.aborted) return false;
+  if ((config.retryCount ?? 0) >= MAX_RETRIES) return false;
+  const method = (config.method ?? 'get').toLowerCase();
+  return (SAFE_METHODS.includes(method) || config.idempotent === true) && isUpstreamFailure(error);
+}
+
+// Metrics label for a request path: ids become :id so each agent does not add a series
+function endpointLabel(url: string | undefined): string {
+  const path = (url ?? '').split('?')[0];
+  return path.split('/').map(segment => /\d/.test(segment) && !/^v\d+$/.test(segment) ? ':id' : segment).join('/') || '/';
+}
+
+function recordCall(config: InternalAxiosRequestConfig | undefined, status: string): void {
+  const seconds = config?.startedAt ? (Date.now() - config.startedAt) / 1000 : undefined;
+  recordOmnidimensionCall((config?.method ?? 'get').toUpperCase(), endpointLabel(config?.url), status, seconds);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Add request interceptor for authentication; an open breaker refuses the request here
+omnidimensionAPI.interceptors.request.use((config) => {
+  try {
+    omnidimensionBreaker.acquire();
+  } catch (error) {
+    recordOmnidimensionCall((config.method ?? 'get').toUpperCase(), endpointLabel(config.url), 'circuit_open');
+    throw error;
+  }
+  config.startedAt = Date.now();
+  if (OMNIDIMENSION_API_KEY) {
+    config.headers.Authorization = `Bearer ${OMNIDIMENSION_API_KEY}`;
+  }
+  return config;
+});
+
+// Add response interceptor for logging, breaker bookkeeping and retries
+omnidimensionAPI.interceptors.response.use(
+  (response) => {
+    omnidimensionBreaker.recordSuccess();
+    recordCall(response.config, String(response.status));
+    console.log(`✅ API Request successful: ${response.config.method?.toUpperCase()} ${response.config.url}`);
+    return response;
+  },
+  async (error) => {
+    if (error instanceof CircuitOpenError) {
+      return Promise.reject(error);
+    }
+    if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+      omnidimensionBreaker.release();
+      return Promise.reject(error);
+    }
+
+    console.error(`❌ API Request failed: ${error.config?.method?.toUpperCase()} ${error.config?.url}`);
+    console.error(`Status: ${error.response?.status}, Message: ${error.message}`);
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    recordCall(error.config, error.response ? String(error.response.status) : timedOut ? 'timeout' : 'network_error');
+
+    // A rejected request says nothing about whether the upstream is healthy
+    if (!isUpstreamFailure(error)) {
+      omnidimensionBreaker.release();
+      return Promise.reject(error);
+    }
+    omnidimensionBreaker.recordFailure(error);
+
+    const config = error.config;
+    if (canRetry(config, error) && !omnidimensionBreaker.isOpen()) {
+      const attempt = config.retryCount ?? 0;
+      const delay = retryDelayMs(error, attempt);
+      if (delay !== undefined) {
+        console.log(`🔁 Retrying ${config.method?.toUpperCase()} ${config.url} in ${Math.round(delay)}ms (attempt ${attempt + 2})`);
+        await sleep(delay);
+        if (!config.signal?.aborted) {
+          return omnidimensionAPI.request({ ...config, retryCount: attempt + 1 });
+        }
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
@@ -0,0 +1,260 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { LocalProvider } from './providers/localProvider';
+import { CompletionRequest } from './providers/types';
+
+// Local stand-in for the subset of the Omnidimension API this project calls.
+// Lets the whole app run offline and makes every upstream error branch reachable.
+
+interface StandInAgent {
+  id: string;
+  name: string;
+  welcomeMessage?: string;
+  createdAt: string;
+}
+
+export interface FailureRule {
+  method?: string;
+  // Path pattern, `*` matches one path segment (e.g. /v1/agents/*/chat)
+  path: string;
+  status: number;
+  // How many more requests to fail; undefined fails forever
+  remaining?: number;
+}
+
+export interface StandInOptions {
+  apiKey?: string;
+  failures?: FailureRule[];
+  // Delay between streamed chunks, in ms
+  streamDelayMs?: number;
+}
+
+const DEFAULT_PERSONA = 'Captain Focus';
+const GREETING_PATTERN = /^(hi|hello|hey|greetings|yo)\b/i;
+
+// Parse STANDIN_FAILURES, e.g. "POST /v1/agents:401,/v1/agents/*/chat:429:2"
+export function parseFailureSpec(spec: string | undefined): FailureRule[] {
+  if (!spec) return [];
+
+  return spec.split(',').map(part => part.trim()).filter(Boolean).flatMap(part => {
+    const [target, status, times] = part.split(':');
+    const [method, path] = target.includes(' ') ? target.split(/\s+/, 2) : [undefined, target];
+    const rule: FailureRule = {
+      method: method?.toUpperCase(),
+      path,
+      status: Number(status),
+      remaining: times ? Number(times) : undefined
+    };
+
+    if (!rule.path || !Number.isInteger(rule.status)) {
+      console.warn(`⚠️ Ignoring invalid stand-in failure rule "${part}"`);
+      return [];
+    }
+    return [rule];
+  });
+}
+
+function matchesRule(rule: FailureRule, method: string, path: string): boolean {
+  if (rule.method && rule.method !== method) return false;
+  if (rule.remaining !== undefined && rule.remaining <= 0) return false;
+
+  const pattern = new RegExp(`^${rule.path.split('*').map(segment =>
+    segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+  ).join('[^/]+')}$`);
+  return pattern.test(path);
+}
+
+function failureBody(status: number) {
+  const messages: Record<number, string> = {
+    401: 'Invalid API key',
+    403: 'API key does not have permission for this resource',
+    404: 'Resource not found',
+    429: 'Rate limit exceeded',
+    500: 'Internal server error',
+    502: 'Bad gateway',
+    503: 'Service temporarily unavailable'
+  };
+  return { error: messages[status] || 'Injected failure', status, injected: true };
+}
+
+function extractPersonaName(systemPrompt: string | undefined): string {
+  const match = systemPrompt?.match(/You are ([^,.!\n]+)/);
+  return match?.[1].trim() || DEFAULT_PERSONA;
+}
+
+export function createStandInApp(options: StandInOptions = {}): express.Express {
+  const app = express();
+  const apiKey = options.apiKey ?? 'standin-key';
+  const streamDelayMs = options.streamDelayMs ?? 40;
+  const agents = new Map<string, StandInAgent>();
+  const scripted = new LocalProvider();
+  let failures: FailureRule[] = [...(options.failures ?? [])];
+
+  app.use(express.json({ limit: '1mb' }));
+
+  // Failure control endpoints (no auth, stand-in only)
+  app.get('/__standin/failures', (req, res) => {
+    res.json({ failures });
+  });
+
+  app.post('/__standin/failures', (req, res) => {
+    const rule = req.body as FailureRule;
+    if (!rule?.path || !Number.isInteger(rule.status)) {
+      return res.status(400).json({ error: 'path and integer status are required' });
+    }
+    const method = rule.method?.toUpperCase();
+    failures.push({ ...rule, method });
+    console.log(`🧪 Stand-in will fail ${method || '*'} ${rule.path} with ${rule.status}`);
+    res.status(201).json({ failures });
+  });
+
+  app.delete('/__standin/failures', (req, res) => {
+    failures = [];
+    res.json({ failures });
+  });
+
+  // Injected failures: a per-request X-Standin-Fail header, or a matching rule
+  app.use((req, res, next) => {
+    let status = Number(req.header('X-Standin-Fail')) || undefined;
+
+    if (!status) {
+      const rule = failures.find(candidate => matchesRule(candidate, req.method, req.path));
+      if (rule) {
+        status = rule.status;
+        if (rule.remaining !== undefined) rule.remaining--;
+      }
+    }
+
+    if (!status) return next();
+
+    console.log(`🧪 Injecting ${status} for ${req.method} ${req.path}`);
+    if (status === 429) {
+      res.setHeader('Retry-After', '2');
+    }
+    res.status(status).json(failureBody(status));
+  });
+
+  app.get('/health', (req, res) => {
+    res.json({ status: 'ok', service: 'omnidimension-stand-in', agents: agents.size });
+  });
+
+  // Everything under /v1 requires the stand-in API key
+  app.use('/v1', (req, res, next) => {
+    if (req.header('Authorization') !== `Bearer ${apiKey}`) {
+      return res.status(401).json(failureBody(401));
+    }
+    next();
+  });
+
+  app.get('/v1/models', (req, res) => {
+    res.json({
+      object: 'list',
+      data: [
+        { id: 'gpt-4o-mini', object: 'model', owned_by: 'omnidimension-stand-in' },
+        { id: 'gpt-4o', object: 'model', owned_by: 'omnidimension-stand-in' }
+      ]
+    });
+  });
+
+  app.post('/v1/agents', (req, res) => {
+    const { name, welcome_message } = req.body ?? {};
+    if (!name) {
+      return res.status(400).json({ error: 'Agent name is required' });
+    }
+
+    const agent: StandInAgent = {
+      id: `standin-agent-${randomUUID().substring(0, 8)}`,
+      name,
+      welcomeMessage: welcome_message,
+      createdAt: new Date().toISOString()
+    };
+    agents.set(agent.id, agent);
+    console.log(`🧪 Stand-in created agent ${agent.id} (${agent.name})`);
+
+    res.json({ status: 'success', json: { id: agent.id, name: agent.name, status: 'active' } });
+  });
+
+  const scriptReply = async (persona: string, message: string, welcomeMessage?: string) => {
+    if (welcomeMessage && GREETING_PATTERN.test(message.trim())) {
+      return welcomeMessage;
+    }
+
+    const request: CompletionRequest = {
+      message,
+      history: [],
+      systemPrompt: '',
+      model: 'gpt-4o-mini',
+      temperature: 0,
+      maxTokens: 300
+    };
+    const { text } = await scripted.complete(request);
+    return `${persona} here! ${text}`;
+  };
+
+  const usageFor = (prompt: string, completion: string) => {
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(completion.length / 4);
+    return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+  };
+
+  // Send a reply as OpenAI-style SSE chunks, a few words at a time
+  const streamReply = async (res: express.Response, model: string, text: string, usage: object) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    const id = `chatcmpl-${randomUUID()}`;
+
+    for (const piece of text.match(/(\S+\s*){1,3}/g) ?? []) {
+      res.write(`data: ${JSON.stringify({ id, model, choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] })}\n\n`);
+      await new Promise(resolve => setTimeout(resolve, streamDelayMs));
+    }
+
+    res.write(`data: ${JSON.stringify({ id, model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage })}\n\n`);
+    res.write('data: [DONE]\n\n');
+    res.end();
+  };
+
+  app.post('/v1/agents/:agentId/chat', async (req, res) => {
+    const agent = agents.get(req.params.agentId);
+    if (!agent) {
+      return res.status(404).json(failureBody(404));
+    }
+
+    const { message, conversation_history, stream } = req.body ?? {};
+    if (!message) {
+      return res.status(400).json({ error: 'message is required' });
+    }
+
+    const text = await scriptReply(agent.name, message, agent.welcomeMessage);
+    const history = Array.isArray(conversation_history) ? conversation_history : [];
+    const usage = usageFor(history.map((entry: { content: string }) => entry.content).join('\n') + message, text);
+
+    if (stream) {
+      return streamReply(res, 'gpt-4o-mini', text, usage);
+    }
+    res.json({ response: text, finish_reason: 'stop', usage });
+  });
+
+  app.post('/v1/chat/completions', async (req, res) => {
+    const { model = 'gpt-4o-mini', messages, stream } = req.body ?? {};
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return res.status(400).json({ error: 'messages are required' });
+    }
+
+    const systemPrompt = messages.find((entry: { role: string }) => entry.role === 'system')?.content;
+    const lastUser = [...messages].reverse().find((entry: { role: string }) => entry.role === 'user');
+    const text = await scriptReply(extractPersonaName(systemPrompt), lastUser?.content ?? '');
+    const usage = usageFor(messages.map((entry: { content: string }) => entry.content).join('\n'), text);
+
+    if (stream) {
+      return streamReply(res, model, text, usage);
+    }
+    res.json({
+      id: `chatcmpl-${randomUUID()}`,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+      usage
+    });
+  });
+
+  return app;
+}
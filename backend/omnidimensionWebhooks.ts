@@ -0,0 +1,221 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { agentStore } from './agentStore';
+import { ConversationSession, SessionMessage, findSessionByCallId, hasExchange, saveVoiceSession } from './sessionStore';
+import { emitUserEvent } from './userEvents';
+import { recordObservation } from './analytics';
+import { detectSubject } from './subjectDetector';
+
+export interface PostCallPayload {
+  callId: string;
+  agentId: string;
+  transcript: Array<Pick<SessionMessage, 'role' | 'content'>>;
+  extractedVariables: Record<string, string>;
+  summary?: string;
+  durationSeconds?: number;
+  startedAt?: string;
+  endedAt?: string;
+}
+
+export interface WebhookError {
+  status: number;
+  error: string;
+  code: string;
+}
+
+export interface PostCallResult {
+  session?: ConversationSession;
+  // The same call was delivered before; webhooks get retried
+  duplicate?: boolean;
+  // Whether the call earned session rewards; calls without a student turn answered by the tutor do not
+  rewarded?: boolean;
+  error?: WebhookError;
+}
+
+export const SIGNATURE_HEADER = 'x-omnidimension-signature';
+export const SECRET_HEADER = 'x-webhook-secret';
+
+// Transcript speaker names that belong to the student; everyone else is the agent
+const USER_SPEAKERS = ['user', 'customer', 'human', 'student', 'caller'];
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Accept either an HMAC-SHA256 signature of the raw body or the shared secret itself
+export function verifyWebhookRequest(
+  rawBody: Buffer | undefined,
+  headers: { signature?: string; secret?: string }
+): WebhookError | undefined {
+  const secret = process.env.OMNIDIMENSION_WEBHOOK_SECRET;
+  if (!secret) {
+    return { status: 503, error: 'Webhook secret is not configured', code: 'WEBHOOK_NOT_CONFIGURED' };
+  }
+
+  if (headers.signature && rawBody) {
+    const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+    if (safeEqual(headers.signature.replace(/^sha256=/, '').toLowerCase(), expected)) return undefined;
+  } else if (headers.secret && safeEqual(headers.secret, secret)) {
+    return undefined;
+  }
+
+  return { status: 401, error: 'Invalid webhook signature', code: 'INVALID_WEBHOOK_SIGNATURE' };
+}
+
+function pick(source: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (source[key] !== undefined && source[key] !== null) return source[key];
+  }
+  return undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function roleFor(speaker: string): SessionMessage['role'] {
+  return USER_SPEAKERS.includes(speaker.trim().toLowerCase()) ? 'user' : 'assistant';
+}
+
+// Transcripts arrive either as a list of turns or as "Speaker: text" lines
+function parseTranscript(value: unknown): PostCallPayload['transcript'] {
+  if (Array.isArray(value)) {
+    return value.flatMap(turn => {
+      if (!turn || typeof turn !== 'object') return [];
+      const entry = turn as Record<string, unknown>;
+      const content = asString(pick(entry, 'content', 'text', 'message'));
+      const speaker = asString(pick(entry, 'role', 'speaker', 'sender')) ?? 'assistant';
+      return content ? [{ role: roleFor(speaker), content }] : [];
+    });
+  }
+
+  const transcript: PostCallPayload['transcript'] = [];
+  for (const line of asString(value)?.split('\n') ?? []) {
+    const match = line.match(/^\s*([A-Za-z ]{1,20}):\s*(.*)$/);
+    const previous = transcript[transcript.length - 1];
+    if (match && match[2].trim()) {
+      transcript.push({ role: roleFor(match[1]), content: match[2].trim() });
+    } else if (previous && line.trim()) {
+      previous.content = `${previous.content} ${line.trim()}`;
+    }
+  }
+  return transcript;
+}
+
+// Extracted variables come as a plain object or as [{ key, value }] pairs
+function parseExtractedVariables(value: unknown): Record<string, string> {
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map(item => [String(item?.key ?? item?.name ?? ''), item?.value])
+    : Object.entries(value && typeof value === 'object' ? value : {});
+
+  return Object.fromEntries(
+    entries.flatMap(([key, raw]) => {
+      const text = asString(raw);
+      return key && text ? [[key, text]] : [];
+    })
+  );
+}
+
+function asTimestamp(value: unknown): string | undefined {
+  const text = asString(value);
+  const time = text ? Date.parse(text) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// The post-call payload nests its details under call_report in some versions
+export function parsePostCallPayload(body: unknown): { payload?: PostCallPayload; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { errors: ['Body must be a JSON object'] };
+  }
+
+  const root = body as Record<string, unknown>;
+  const report = (pick(root, 'call_report', 'callReport') ?? {}) as Record<string, unknown>;
+  const field = (...keys: string[]) => pick(report, ...keys) ?? pick(root, ...keys);
+
+  const callId = asString(field('call_id', 'callId', 'id'));
+  const agentId = asString(field('agent_id', 'agentId', 'bot_id'));
+  const transcript = parseTranscript(field('full_conversation', 'transcript', 'conversation'));
+  const duration = Number(field('call_duration', 'duration_seconds', 'duration'));
+
+  const errors: string[] = [];
+  if (!callId) errors.push('call_id is required');
+  if (!agentId) errors.push('agent_id is required');
+  if (transcript.length === 0) errors.push('A non-empty transcript is required');
+  if (errors.length > 0) return { errors };
+
+  return {
+    payload: {
+      callId: callId as string,
+      agentId: agentId as string,
+      transcript,
+      extractedVariables: parseExtractedVariables(field('extracted_variables', 'extractedVariables')),
+      summary: asString(field('summary', 'call_summary')),
+      durationSeconds: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+      startedAt: asTimestamp(field('started_at', 'start_time', 'call_date')),
+      endedAt: asTimestamp(field('ended_at', 'end_time'))
+    },
+    errors
+  };
+}
+
+// Turn a finished voice call into a completed session owned by the agent's user
+export async function handlePostCall(payload: PostCallPayload): Promise<PostCallResult> {
+  const agent = await agentStore.findByAgentId(payload.agentId);
+  if (!agent) {
+    return { error: { status: 404, error: 'No user is linked to this agent', code: 'WEBHOOK_AGENT_UNKNOWN' } };
+  }
+
+  const existing = await findSessionByCallId(payload.callId);
+  if (existing) {
+    return { session: existing, duplicate: true };
+  }
+
+  const variables = payload.extractedVariables;
+  const topic = variables.subject_topic;
+  const subject = (topic && detectSubject(topic)) ?? topic;
+  const firstQuestion = payload.transcript.find(message => message.role === 'user')?.content;
+
+  const session = await saveVoiceSession(agent.userId, {
+    title: topic ? `Voice session: ${topic}` : firstQuestion ?? 'Voice session',
+    subject,
+    messages: payload.transcript,
+    startedAt: payload.startedAt,
+    endedAt: payload.endedAt,
+    personaId: agent.personaId,
+    voiceCall: {
+      callId: payload.callId,
+      agentId: payload.agentId,
+      durationSeconds: payload.durationSeconds,
+      summary: payload.summary,
+      extractedVariables: variables
+    }
+  });
+  await agentStore.touch(payload.agentId);
+
+  await recordObservation(agent.userId, {
+    source: 'voice',
+    mood: variables.user_emotion,
+    subject: session.subject,
+    learningMode: variables.learning_mode,
+    difficulty: variables.difficulty_level,
+    minutes: payload.durationSeconds ? payload.durationSeconds / 60 : undefined,
+    recordedAt: session.completedAt
+  });
+  // As with text sessions, only a real exchange earns XP, quests and achievements
+  const rewarded = hasExchange(session);
+  if (rewarded) {
+    await emitUserEvent(agent.userId, 'session_completed', {
+      sessionId: session.id,
+      subject: session.subject,
+      messageCount: session.messages.length,
+      channel: 'voice',
+      difficulty: variables.difficulty_level
+    });
+  } else {
+    console.log(`📞 Voice call ${payload.callId} had no exchange, no rewards`);
+  }
+
+  return { session, rewarded };
+}
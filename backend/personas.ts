@@ -0,0 +1,283 @@
+import { createCollection } from './storage';
+import builtInPersonas from './personas.json';
+
+export interface PersonaSection {
+  title: string;
+  body: string;
+  enabled: boolean;
+}
+
+export interface PersonaModel {
+  name: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface PersonaVoice {
+  provider: string;
+  voiceId: string;
+  stability: number;
+  similarityBoost: number;
+}
+
+// How the browser's own speech synthesis should sound for this persona
+export interface PersonaSpeech {
+  pitch: number;
+  rate: number;
+  // Substrings matched against the browser's voice names, best first
+  voiceHints: string[];
+}
+
+export interface PersonaTranscriber {
+  provider: string;
+  model: string;
+  silenceTimeoutMs: number;
+}
+
+export interface ExtractedVariable {
+  key: string;
+  prompt: string;
+}
+
+// Everything an admin can edit; each save becomes a new version
+export interface PersonaInput {
+  name: string;
+  description?: string;
+  // Opening line of the system prompt, e.g. "You are Captain Focus, ..."
+  intro: string;
+  welcomeMessage: string;
+  sections: PersonaSection[];
+  model: PersonaModel;
+  voice: PersonaVoice;
+  speech?: PersonaSpeech;
+  transcriber: PersonaTranscriber;
+  extractedVariables?: ExtractedVariable[];
+}
+
+export interface Persona extends PersonaInput {
+  id: string;
+  version: number;
+  description: string;
+  speech: PersonaSpeech;
+  extractedVariables: ExtractedVariable[];
+  createdAt: string;
+  // Who saved this version; built-in personas have none
+  createdBy?: string;
+}
+
+// Every version of a persona, oldest first
+interface PersonaRecord {
+  id: string;
+  versions: Persona[];
+}
+
+export interface PersonaResult {
+  persona?: Persona;
+  error?: { status: number; error: string; code: string };
+}
+
+export const DEFAULT_PERSONA_ID = 'captain-focus';
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_SECTIONS = 20;
+const MAX_SECTION_LENGTH = 4000;
+const DEFAULT_SPEECH: PersonaSpeech = { pitch: 1, rate: 1, voiceHints: [] };
+
+const personas = createCollection<PersonaRecord>('personas');
+
+let seeding: Promise<void> | null = null;
+
+// Built-in personas are written once; after that the stored versions are the source of truth
+function ensureSeeded(): Promise<void> {
+  if (!seeding) {
+    seeding = (async () => {
+      for (const seed of builtInPersonas as Array<PersonaInput & { id: string }>) {
+        if (await personas.get(seed.id)) continue;
+        await personas.set(seed.id, { id: seed.id, versions: [toPersona(seed.id, 1, seed)] });
+      }
+    })().catch(error => {
+      seeding = null;
+      throw error;
+    });
+  }
+  return seeding;
+}
+
+function toPersona(id: string, version: number, input: PersonaInput, createdBy?: string): Persona {
+  return {
+    id,
+    version,
+    name: input.name.trim(),
+    description: input.description?.trim() ?? '',
+    intro: input.intro.trim(),
+    welcomeMessage: input.welcomeMessage.trim(),
+    sections: input.sections.map(section => ({
+      title: section.title.trim(),
+      body: section.body.trim(),
+      enabled: section.enabled !== false
+    })),
+    model: { ...input.model },
+    voice: { ...input.voice },
+    speech: input.speech ? { ...input.speech, voiceHints: [...input.speech.voiceHints] } : { ...DEFAULT_SPEECH },
+    transcriber: { ...input.transcriber },
+    extractedVariables: (input.extractedVariables ?? []).map(variable => ({ ...variable })),
+    createdAt: new Date().toISOString(),
+    createdBy
+  };
+}
+
+function isText(value: unknown, maxLength = 500): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+export function validatePersonaId(id: unknown): string[] {
+  return typeof id === 'string' && ID_PATTERN.test(id) && id.length <= 40
+    ? []
+    : ['id must be a lowercase slug of letters, numbers and dashes (at most 40 characters)'];
+}
+
+export function validatePersonaInput(input: PersonaInput): string[] {
+  const errors: string[] = [];
+
+  if (!isText(input?.name, 60)) errors.push('name is required (at most 60 characters)');
+  if (input?.description !== undefined && typeof input.description !== 'string') errors.push('description must be a string');
+  if (!isText(input?.intro, 1000)) errors.push('intro is required (at most 1000 characters)');
+  if (!isText(input?.welcomeMessage, 500)) errors.push('welcomeMessage is required (at most 500 characters)');
+
+  if (!Array.isArray(input?.sections) || input.sections.length === 0 || input.sections.length > MAX_SECTIONS) {
+    errors.push(`sections must have 1-${MAX_SECTIONS} entries`);
+  } else {
+    input.sections.forEach((section, index) => {
+      if (!isText(section?.title, 120)) errors.push(`sections[${index}].title is required (at most 120 characters)`);
+      if (!isText(section?.body, MAX_SECTION_LENGTH)) {
+        errors.push(`sections[${index}].body is required (at most ${MAX_SECTION_LENGTH} characters)`);
+      }
+      if (section?.enabled !== undefined && typeof section.enabled !== 'boolean') {
+        errors.push(`sections[${index}].enabled must be a boolean`);
+      }
+    });
+    if (!input.sections.some(section => section?.enabled !== false)) errors.push('at least one section must be enabled');
+  }
+
+  if (!isText(input?.model?.name, 100)) errors.push('model.name is required');
+  if (!isInRange(input?.model?.temperature, 0, 2)) errors.push('model.temperature must be between 0 and 2');
+  if (!Number.isInteger(input?.model?.maxTokens) || !isInRange(input?.model?.maxTokens, 1, 4096)) {
+    errors.push('model.maxTokens must be an integer between 1 and 4096');
+  }
+
+  if (!isText(input?.voice?.provider, 100)) errors.push('voice.provider is required');
+  if (!isText(input?.voice?.voiceId, 100)) errors.push('voice.voiceId is required');
+  if (!isInRange(input?.voice?.stability, 0, 1)) errors.push('voice.stability must be between 0 and 1');
+  if (!isInRange(input?.voice?.similarityBoost, 0, 1)) errors.push('voice.similarityBoost must be between 0 and 1');
+
+  if (input?.speech !== undefined) {
+    if (!isInRange(input.speech?.pitch, 0, 2)) errors.push('speech.pitch must be between 0 and 2');
+    if (!isInRange(input.speech?.rate, 0.1, 10)) errors.push('speech.rate must be between 0.1 and 10');
+    if (!Array.isArray(input.speech?.voiceHints) || !input.speech.voiceHints.every(hint => isText(hint, 100))) {
+      errors.push('speech.voiceHints must be a list of voice name fragments');
+    }
+  }
+
+  if (!isText(input?.transcriber?.provider, 100)) errors.push('transcriber.provider is required');
+  if (!isText(input?.transcriber?.model, 100)) errors.push('transcriber.model is required');
+  if (!Number.isInteger(input?.transcriber?.silenceTimeoutMs) || !isInRange(input?.transcriber?.silenceTimeoutMs, 100, 10000)) {
+    errors.push('transcriber.silenceTimeoutMs must be an integer between 100 and 10000');
+  }
+
+  if (input?.extractedVariables !== undefined) {
+    if (!Array.isArray(input.extractedVariables)) {
+      errors.push('extractedVariables must be an array');
+    } else {
+      input.extractedVariables.forEach((variable, index) => {
+        if (!/^[a-z][a-z0-9_]*$/.test(variable?.key ?? '')) errors.push(`extractedVariables[${index}].key must be snake_case`);
+        if (!isText(variable?.prompt)) errors.push(`extractedVariables[${index}].prompt is required`);
+      });
+    }
+  }
+
+  return errors;
+}
+
+// The system prompt for chat completions, built from the same sections the voice agent gets
+export function renderSystemPrompt(persona: Persona): string {
+  const sections = persona.sections
+    .filter(section => section.enabled)
+    .map(section => `${section.title}:\n${section.body}`);
+  return [persona.intro, ...sections].join('\n\n');
+}
+
+export async function listPersonas(): Promise<Persona[]> {
+  await ensureSeeded();
+  const entries = await personas.entries();
+  return entries.map(([, record]) => record.versions[record.versions.length - 1]);
+}
+
+// The latest version, or a specific one
+export async function getPersona(id: string, version?: number): Promise<Persona | undefined> {
+  await ensureSeeded();
+  const record = await personas.get(id);
+  if (!record) return undefined;
+  return version === undefined
+    ? record.versions[record.versions.length - 1]
+    : record.versions.find(candidate => candidate.version === version);
+}
+
+export async function getPersonaVersions(id: string): Promise<Persona[] | undefined> {
+  await ensureSeeded();
+  return (await personas.get(id))?.versions;
+}
+
+// The default persona; it cannot be deleted, so this only fails if the store is broken
+export async function getDefaultPersona(): Promise<Persona> {
+  const persona = await getPersona(DEFAULT_PERSONA_ID);
+  if (!persona) {
+    throw new Error(`Default persona "${DEFAULT_PERSONA_ID}" is missing`);
+  }
+  return persona;
+}
+
+export async function createPersona(id: string, input: PersonaInput, createdBy?: string): Promise<PersonaResult> {
+  await ensureSeeded();
+  if (await personas.get(id)) {
+    return { error: { status: 409, error: 'A persona with this id already exists', code: 'PERSONA_EXISTS' } };
+  }
+
+  const persona = toPersona(id, 1, input, createdBy);
+  await personas.set(id, { id, versions: [persona] });
+  console.log(`🎭 Created persona ${id} v1`);
+  return { persona };
+}
+
+// Saving never edits a version in place, so agents can always tell which one they were built from
+export async function updatePersona(id: string, input: PersonaInput, updatedBy?: string): Promise<PersonaResult> {
+  await ensureSeeded();
+  const record = await personas.get(id);
+  if (!record) {
+    return { error: { status: 404, error: 'Persona not found', code: 'PERSONA_NOT_FOUND' } };
+  }
+
+  const version = record.versions[record.versions.length - 1].version + 1;
+  const persona = toPersona(id, version, input, updatedBy);
+  await personas.set(id, { id, versions: [...record.versions, persona] });
+  console.log(`🎭 Saved persona ${id} v${version}`);
+  return { persona };
+}
+
+export async function deletePersona(id: string): Promise<PersonaResult> {
+  await ensureSeeded();
+  if (id === DEFAULT_PERSONA_ID) {
+    return { error: { status: 409, error: 'The default persona cannot be deleted', code: 'PERSONA_PROTECTED' } };
+  }
+
+  const record = await personas.get(id);
+  if (!record) {
+    return { error: { status: 404, error: 'Persona not found', code: 'PERSONA_NOT_FOUND' } };
+  }
+
+  await personas.delete(id);
+  return { persona: record.versions[record.versions.length - 1] };
+}
@@ -0,0 +1,132 @@
+import { createCollection } from './storage';
+import { onUserEvent, UserEventType } from './userEvents';
+
+export interface XpEntry {
+  amount: number;
+  reason: string;
+  eventType?: UserEventType;
+  awardedAt: string;
+}
+
+interface ProgressRecord {
+  userId: string;
+  totalXp: number;
+  ledger: XpEntry[];
+  updatedAt: string;
+}
+
+export interface LevelInfo {
+  level: number;
+  title: string;
+  totalXp: number;
+  xpIntoLevel: number;
+  xpForNextLevel: number;
+  progressPercent: number;
+}
+
+export interface UserProgress extends LevelInfo {
+  userId: string;
+  recentXp: XpEntry[];
+  updatedAt?: string;
+}
+
+// XP granted automatically for each kind of user event
+export const XP_REWARDS: Partial<Record<UserEventType, number>> = {
+  message_sent: 10,
+  session_completed: 50,
+  focus_session_completed: 30,
+  quiz_answer_correct: 20,
+  quiz_completed: 30
+};
+
+const LEDGER_LIMIT = 200;
+const LEVEL_BASE_XP = 100;
+const LEVEL_EXPONENT = 1.5;
+
+const LEVEL_TITLES: Array<[number, string]> = [
+  [1, 'Rookie Scholar'],
+  [3, 'Apprentice'],
+  [5, 'Quest Seeker'],
+  [10, 'Knowledge Knight'],
+  [15, 'Study Champion'],
+  [25, 'Legendary Scholar']
+];
+
+const progressRecords = createCollection<ProgressRecord>('progress');
+
+// Total XP needed to reach a level: 100 * (level - 1)^1.5
+export function xpRequiredForLevel(level: number): number {
+  return Math.round(LEVEL_BASE_XP * Math.pow(Math.max(level - 1, 0), LEVEL_EXPONENT));
+}
+
+export function levelForXp(totalXp: number): LevelInfo {
+  let level = 1;
+  while (xpRequiredForLevel(level + 1) <= totalXp) {
+    level++;
+  }
+
+  const levelStart = xpRequiredForLevel(level);
+  const nextLevelStart = xpRequiredForLevel(level + 1);
+  const xpIntoLevel = totalXp - levelStart;
+  const xpForNextLevel = nextLevelStart - levelStart;
+  const title = LEVEL_TITLES.filter(([minLevel]) => level >= minLevel).pop()?.[1] ?? LEVEL_TITLES[0][1];
+
+  return {
+    level,
+    title,
+    totalXp,
+    xpIntoLevel,
+    xpForNextLevel,
+    progressPercent: Math.floor((xpIntoLevel / xpForNextLevel) * 100)
+  };
+}
+
+export async function awardXp(
+  userId: string,
+  amount: number,
+  reason: string,
+  eventType?: UserEventType
+): Promise<UserProgress> {
+  const existing = await progressRecords.get(userId);
+  const now = new Date().toISOString();
+  const before = levelForXp(existing?.totalXp ?? 0);
+
+  const record: ProgressRecord = {
+    userId,
+    totalXp: (existing?.totalXp ?? 0) + amount,
+    ledger: [...(existing?.ledger ?? []), { amount, reason, eventType, awardedAt: now }].slice(-LEDGER_LIMIT),
+    updatedAt: now
+  };
+  await progressRecords.set(userId, record);
+
+  const progress = toUserProgress(record);
+  if (progress.level > before.level) {
+    console.log(`🆙 User ${userId} reached level ${progress.level} (${progress.title})`);
+  }
+  return progress;
+}
+
+function toUserProgress(record: ProgressRecord): UserProgress {
+  return {
+    userId: record.userId,
+    ...levelForXp(record.totalXp),
+    recentXp: record.ledger.slice(-10).reverse(),
+    updatedAt: record.updatedAt
+  };
+}
+
+export async function getProgress(userId: string): Promise<UserProgress> {
+  const record = await progressRecords.get(userId);
+  if (!record) {
+    return { userId, ...levelForXp(0), recentXp: [] };
+  }
+  return toUserProgress(record);
+}
+
+onUserEvent(async (event) => {
+  const amount = XP_REWARDS[event.type];
+  if (!amount) return;
+
+  const reason = typeof event.data?.reason === 'string' ? event.data.reason : event.type.replace(/_/g, ' ');
+  await awardXp(event.userId, amount, reason, event.type);
+});
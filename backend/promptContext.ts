@@ -0,0 +1,43 @@
+// Per-user notes for the tutor (focus timer state, etc.) gathered right before a chat turn.
+// Feature modules register a contributor here instead of being called from the chat code.
+
+export type PromptContextContributor = (userId: string) => Promise<string | undefined> | string | undefined;
+
+export interface PromptContextOptions {
+  // The note only varies with something the answer cache keys on (the skill level), so
+  // prompts carrying it can still share cached answers
+  cacheKeyed?: boolean;
+}
+
+export interface PromptNote {
+  text: string;
+  cacheKeyed: boolean;
+}
+
+const contributors: Array<{ contributor: PromptContextContributor; cacheKeyed: boolean }> = [];
+
+export function registerPromptContext(contributor: PromptContextContributor, options: PromptContextOptions = {}): void {
+  contributors.push({ contributor, cacheKeyed: options.cacheKeyed ?? false });
+}
+
+// Collect every contributor's note for a user. A failing contributor is logged and skipped.
+export async function buildPromptContext(userId: string): Promise<PromptNote[]> {
+  const notes: PromptNote[] = [];
+
+  for (const { contributor, cacheKeyed } of contributors) {
+    try {
+      const note = await contributor(userId);
+      if (note?.trim()) notes.push({ text: note.trim(), cacheKeyed });
+    } catch (error) {
+      console.error('❌ Prompt context contributor failed:', error);
+    }
+  }
+
+  return notes;
+}
+
+// Append the notes to a system prompt as a short "current situation" block
+export function withPromptContext(systemPrompt: string, notes: string[]): string {
+  if (notes.length === 0) return systemPrompt;
+  return `${systemPrompt}\n\n📍 Current situation:\n${notes.map(note => `- ${note}`).join('\n')}`;
+}
@@ -0,0 +1,92 @@
+import { LocalProvider } from './localProvider';
+import { OmnidimensionAgentProvider } from './omnidimensionAgentProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { CompletionRequest, CompletionResult, LLMProvider } from './types';
+import { recordTokenUsage } from '../metrics';
+
+export * from './types';
+export { estimateTokens } from './usage';
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  'omnidimension-agent': () => new OmnidimensionAgentProvider(),
+  'openai-compatible': () => new OpenAICompatibleProvider({
+    baseUrl: process.env.OPENAI_COMPAT_BASE_URL,
+    apiKey: process.env.OPENAI_COMPAT_API_KEY,
+    model: process.env.OPENAI_COMPAT_MODEL
+  }),
+  local: () => new LocalProvider()
+};
+
+const DEFAULT_PROVIDER_CHAIN = 'omnidimension-agent,openai-compatible';
+
+// Build the provider chain from a comma-separated list, e.g. LLM_PROVIDERS=openai-compatible,local
+export function createProviderChain(spec: string = process.env.LLM_PROVIDERS || DEFAULT_PROVIDER_CHAIN): LLMProvider[] {
+  const names = spec.split(',').map(name => name.trim()).filter(Boolean);
+  const providers: LLMProvider[] = [];
+
+  for (const name of names) {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`⚠️ Unknown LLM provider "${name}" in LLM_PROVIDERS, skipping`);
+      continue;
+    }
+    providers.push(factory());
+  }
+
+  if (providers.length === 0) {
+    throw new Error(`No valid LLM providers configured (got "${spec}")`);
+  }
+  return providers;
+}
+
+export const providerChain = createProviderChain();
+
+// Try each provider in order until one answers; rethrows the last error
+export async function completeWithProviders(
+  request: CompletionRequest,
+  providers: LLMProvider[] = providerChain
+): Promise<CompletionResult> {
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    try {
+      const result = await provider.complete(request);
+      recordTokenUsage(result.provider, result.model, result.usage);
+      return result;
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      lastError = error;
+      console.log(`🔄 Provider ${provider.name} failed, trying next...`);
+    }
+  }
+
+  throw lastError;
+}
+
+// Streaming variant: only falls through to the next provider if the failing
+// one has not emitted anything yet, so the client never sees duplicated text.
+export async function streamWithProviders(
+  request: CompletionRequest,
+  onDelta: (text: string) => void,
+  providers: LLMProvider[] = providerChain
+): Promise<CompletionResult> {
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    let emitted = false;
+    try {
+      const result = await provider.stream(request, text => {
+        emitted = true;
+        onDelta(text);
+      });
+      recordTokenUsage(result.provider, result.model, result.usage);
+      return result;
+    } catch (error) {
+      if (emitted || request.signal?.aborted) throw error;
+      lastError = error;
+      console.log(`🔄 Provider ${provider.name} stream failed, trying next...`);
+    }
+  }
+
+  throw lastError;
+}
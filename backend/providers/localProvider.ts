@@ -0,0 +1,98 @@
+import { CompletionRequest, CompletionResult, LLMProvider } from './types';
+import { estimateUsage } from './usage';
+import { Mood, classifyEmotion } from '../../shared/emotion';
+import type { LearningMode } from '../learningModes';
+
+// Persona-neutral wording: the persona's name and emoji are added around it
+const LOCAL_REPLIES: Record<Mood, string[]> = {
+  tired: [
+    "You sound low on energy, so let's shrink \"{topic}\" into one small step we can finish together.",
+    "Let's take \"{topic}\" slowly, one small piece at a time - short steps still count."
+  ],
+  confused: [
+    "Confusion usually means you're close to something new. Let's break \"{topic}\" into steps and find where it gets tangled.",
+    "Let's pin down exactly where \"{topic}\" stops making sense, then build up from there."
+  ],
+  frustrated: [
+    "That sounds frustrating, and it's okay to feel that way. Let's come at \"{topic}\" from a different angle.",
+    "Let's slow down on \"{topic}\" and take it one step at a time."
+  ],
+  happy: [
+    "Great energy! Let's take \"{topic}\" a bit further.",
+    "Nice momentum - let's keep going with \"{topic}\"."
+  ],
+  excited: [
+    "Love the curiosity! Let's explore \"{topic}\" together.",
+    "Let's put that energy straight into \"{topic}\"."
+  ],
+  neutral: [
+    "Good question - let's work through \"{topic}\" together.",
+    "Let's look at \"{topic}\" step by step."
+  ]
+};
+
+// How the reply hands the turn back, by learning mode; `auto` when none was picked
+const MODE_FOLLOW_UPS: Record<LearningMode | 'auto', string[]> = {
+  auto: [
+    'Do you want a quick summary first, or a deep dive with examples?',
+    'What do you already know about it?'
+  ],
+  deep_dive: ["Tell me what you already know, and we'll build it up step by step with an example."],
+  quick_revision: ["List the key points you remember, and we'll fill in the gaps."],
+  just_curious: ['What got you curious about it?'],
+  homework_help: ["Show me the first step you tried, and we'll work out the next one together."]
+};
+
+// The emoji a persona opens its welcome message with, if any
+function personaEmoji(welcomeMessage: string): string | undefined {
+  return welcomeMessage.trim().match(/^\p{Extended_Pictographic}\uFE0F?/u)?.[0];
+}
+
+// Small stable string hash so the same message always gets the same reply
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// Deterministic offline provider: no network, same input -> same output.
+// Useful for demos, tests and as the last link in the provider chain.
+// It speaks as the request's persona and follows its learning mode.
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+
+  private reply(request: CompletionRequest): string {
+    const message = request.message.trim();
+    const hash = hashText(message);
+    const replies = LOCAL_REPLIES[classifyEmotion(message).mood];
+    const followUps = MODE_FOLLOW_UPS[request.mode ?? 'auto'];
+    const topic = message.length > 60 ? `${message.substring(0, 57)}...` : message;
+    const reply = `${replies[hash % replies.length].replace('{topic}', topic)} ${followUps[hash % followUps.length]}`;
+
+    if (!request.persona) return reply;
+    const emoji = personaEmoji(request.persona.welcomeMessage);
+    return `${emoji ? `${emoji} ` : ''}${request.persona.name} here. ${reply}`;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const text = this.reply(request);
+    return {
+      text,
+      finishReason: 'stop',
+      usage: estimateUsage(request, text),
+      provider: this.name,
+      model: 'local-scripted'
+    };
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+    const result = await this.complete(request);
+    for (const word of result.text.match(/\S+\s*/g) ?? []) {
+      if (request.signal?.aborted) break;
+      onDelta(word);
+    }
+    return result;
+  }
+}
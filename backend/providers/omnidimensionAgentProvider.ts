@@ -0,0 +1,87 @@
+import { omnidimensionAPI, OMNIDIMENSION_API_KEY } from '../omnidimensionClient';
+import { relayUpstreamStream } from './sse';
+import { CompletionRequest, CompletionResult, LLMProvider } from './types';
+import { normalizeFinishReason, normalizeUsage } from './usage';
+
+// Talks to the agent-specific chat endpoint: POST /v1/agents/:id/chat
+export class OmnidimensionAgentProvider implements LLMProvider {
+  readonly name = 'omnidimension-agent';
+
+  private ensureReady(request: CompletionRequest): string {
+    if (!OMNIDIMENSION_API_KEY) {
+      throw new Error('Omnidimension API key is required');
+    }
+    if (!request.agentId) {
+      throw new Error('Agent ID is required for the agent chat endpoint');
+    }
+    return request.agentId;
+  }
+
+  // The mode's token limit and the persona's model and temperature override the agent's defaults
+  private buildBody(request: CompletionRequest, stream: boolean) {
+    return {
+      message: request.message.trim(),
+      conversation_history: request.history,
+      ...(request.context?.length ? { context: request.context.join('\n') } : {}),
+      model: request.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const agentId = this.ensureReady(request);
+
+    const response = await omnidimensionAPI.post(`/v1/agents/${agentId}/chat`, this.buildBody(request, false), {
+      signal: request.signal,
+      idempotent: true
+    });
+
+    const data = response.data;
+    let text: string | undefined;
+
+    if (typeof data === 'string') {
+      text = data;
+    } else {
+      text = data?.choices?.[0]?.message?.content ?? data?.response ?? data?.message;
+    }
+
+    if (typeof text !== 'string') {
+      console.error('🤔 Unexpected agent response format:', data);
+      throw new Error('Unexpected response format from agent chat endpoint');
+    }
+
+    return {
+      text: text.trim(),
+      finishReason: normalizeFinishReason(data?.choices?.[0]?.finish_reason ?? data?.finish_reason ?? 'stop'),
+      usage: normalizeUsage(data?.usage, request, text),
+      provider: this.name,
+      model: data?.model ?? request.model
+    };
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+    const agentId = this.ensureReady(request);
+
+    const response = await omnidimensionAPI.post(`/v1/agents/${agentId}/chat`, this.buildBody(request, true), {
+      responseType: 'stream',
+      signal: request.signal,
+      idempotent: true
+    });
+
+    const relayed = await relayUpstreamStream(
+      response.data,
+      String(response.headers['content-type'] || ''),
+      onDelta
+    );
+
+    return {
+      text: relayed.text.trim(),
+      finishReason: normalizeFinishReason(relayed.finishReason ?? 'stop'),
+      usage: normalizeUsage(relayed.usage, request, relayed.text),
+      provider: this.name,
+      model: request.model
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import axios, { AxiosInstance } from 'axios';
+import { omnidimensionAPI, OMNIDIMENSION_API_KEY } from '../omnidimensionClient';
+import { relayUpstreamStream } from './sse';
+import { CompletionRequest, CompletionResult, LLMProvider } from './types';
+import { normalizeFinishReason, normalizeUsage } from './usage';
+
+export interface OpenAICompatibleOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+// Any endpoint that speaks POST /v1/chat/completions.
+// Without a base URL it reuses the Omnidimension client, matching the old fallback.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private readonly client: AxiosInstance;
+  private readonly apiKey: string | undefined;
+  private readonly model: string | undefined;
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    this.model = options.model;
+
+    if (options.baseUrl) {
+      this.apiKey = options.apiKey;
+      this.client = axios.create({
+        baseURL: options.baseUrl,
+        timeout: 30000,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Captain-Focus-Backend/1.0.0',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        }
+      });
+    } else {
+      this.apiKey = OMNIDIMENSION_API_KEY;
+      this.client = omnidimensionAPI;
+    }
+  }
+
+  private buildBody(request: CompletionRequest, stream: boolean) {
+    if (!this.apiKey) {
+      throw new Error(`API key is required for the ${this.name} provider`);
+    }
+
+    return {
+      model: this.model ?? request.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        ...request.history,
+        { role: 'user', content: request.message }
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const body = this.buildBody(request, false);
+    // Generating a reply has no side effects, so a failed attempt can be retried
+    const response = await this.client.post('/v1/chat/completions', body, { signal: request.signal, idempotent: true });
+
+    const choice = response.data?.choices?.[0];
+    const text = choice?.message?.content;
+    if (typeof text !== 'string') {
+      console.error('🤔 Unexpected chat completions format:', response.data);
+      throw new Error('Unexpected response format from chat completions endpoint');
+    }
+
+    return {
+      text: text.trim(),
+      finishReason: normalizeFinishReason(choice.finish_reason),
+      usage: normalizeUsage(response.data.usage, request, text),
+      provider: this.name,
+      model: response.data.model ?? body.model
+    };
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+    const body = this.buildBody(request, true);
+    const response = await this.client.post('/v1/chat/completions', body, {
+      responseType: 'stream',
+      signal: request.signal,
+      idempotent: true
+    });
+
+    const relayed = await relayUpstreamStream(
+      response.data,
+      String(response.headers['content-type'] || ''),
+      onDelta
+    );
+
+    return {
+      text: relayed.text.trim(),
+      finishReason: normalizeFinishReason(relayed.finishReason),
+      usage: normalizeUsage(relayed.usage, request, relayed.text),
+      provider: this.name,
+      model: body.model
+    };
+  }
+}
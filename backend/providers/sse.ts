@@ -0,0 +1,91 @@
+import { Readable } from 'stream';
+
+interface UpstreamPayload {
+  choices?: Array<{
+    delta?: { content?: string };
+    message?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+  delta?: string;
+  response?: string;
+  message?: string;
+  finish_reason?: string;
+  usage?: unknown;
+}
+
+export interface RelayedStream {
+  text: string;
+  finishReason?: string;
+  usage?: unknown;
+}
+
+// Pull the text fragment out of one upstream streaming payload.
+// Handles OpenAI-style chunks as well as the agent endpoint's own shapes.
+function extractStreamDelta(payload: UpstreamPayload | string): string {
+  if (typeof payload === 'string') return payload;
+
+  return payload.choices?.[0]?.delta?.content
+    ?? payload.choices?.[0]?.message?.content
+    ?? payload.delta
+    ?? payload.response
+    ?? payload.message
+    ?? '';
+}
+
+// Read an upstream Server-Sent Events body and report each text delta.
+// Non-SSE bodies (a plain JSON reply) are treated as a single delta.
+export async function relayUpstreamStream(
+  body: Readable,
+  contentType: string,
+  onDelta: (text: string) => void
+): Promise<RelayedStream> {
+  const result: RelayedStream = { text: '' };
+
+  const handlePayload = (raw: string) => {
+    let payload: UpstreamPayload | string;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      payload = raw;
+    }
+
+    const text = extractStreamDelta(payload);
+    if (text) {
+      result.text += text;
+      onDelta(text);
+    }
+
+    if (typeof payload === 'object' && payload) {
+      result.finishReason = payload.choices?.[0]?.finish_reason ?? payload.finish_reason ?? result.finishReason;
+      result.usage = payload.usage ?? result.usage;
+    }
+  };
+
+  if (!contentType.includes('text/event-stream')) {
+    let raw = '';
+    for await (const chunk of body) {
+      raw += chunk.toString();
+    }
+    handlePayload(raw);
+    return result;
+  }
+
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += chunk.toString();
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') return result;
+
+      handlePayload(data);
+    }
+  }
+
+  return result;
+}
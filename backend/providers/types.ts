@@ -0,0 +1,48 @@
+import type { PersonaInput } from '../personas';
+import type { LearningMode } from '../learningModes';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  agentId?: string;
+  message: string;
+  history: ChatMessage[];
+  systemPrompt: string;
+  // Notes about the student's current situation; already folded into systemPrompt
+  context?: string[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Who is answering and in which mode; the offline provider speaks from these directly
+  persona?: Pick<PersonaInput, 'name' | 'welcomeMessage'>;
+  mode?: LearningMode;
+  signal?: AbortSignal;
+}
+
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'unknown';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when the upstream did not report usage and it was estimated locally
+  estimated: boolean;
+}
+
+// The one shape every provider normalizes its reply into
+export interface CompletionResult {
+  text: string;
+  finishReason: FinishReason;
+  usage: TokenUsage;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult>;
+}
@@ -0,0 +1,54 @@
+import { ChatMessage, CompletionRequest, FinishReason, TokenUsage } from './types';
+
+// Rough token estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(request: CompletionRequest, completion: string): TokenUsage {
+  const promptText = [
+    request.systemPrompt,
+    ...request.history.map((message: ChatMessage) => message.content),
+    request.message
+  ].join('\n');
+
+  const promptTokens = estimateTokens(promptText);
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true
+  };
+}
+
+// Accept OpenAI-style snake_case usage and fall back to an estimate
+export function normalizeUsage(raw: unknown, request: CompletionRequest, completion: string): TokenUsage {
+  const usage = raw as { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined;
+
+  if (typeof usage?.prompt_tokens === 'number' && typeof usage?.completion_tokens === 'number') {
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens,
+      estimated: false
+    };
+  }
+
+  return estimateUsage(request, completion);
+}
+
+export function normalizeFinishReason(raw: unknown): FinishReason {
+  switch (raw) {
+    case 'stop':
+    case 'end_turn':
+      return 'stop';
+    case 'length':
+    case 'max_tokens':
+      return 'length';
+    case 'content_filter':
+      return 'content_filter';
+    default:
+      return 'unknown';
+  }
+}
@@ -0,0 +1,324 @@
+import { randomUUID } from 'crypto';
+import { createCollection } from './storage';
+import { onUserEvent, UserEvent, UserEventType } from './userEvents';
+import { awardXp } from './progression';
+
+export type QuestState = 'available' | 'active' | 'completed' | 'expired';
+
+export type ObjectiveType = 'ask_questions' | 'focus_session' | 'complete_sessions' | 'quiz_correct';
+
+export interface QuestObjective {
+  id: string;
+  type: ObjectiveType;
+  description: string;
+  target: number;
+  current: number;
+  // ask_questions / quiz_correct: only events about this topic count
+  topic?: string;
+  // focus_session: minimum length of a focus session that counts
+  minMinutes?: number;
+}
+
+export interface Quest {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  objectives: QuestObjective[];
+  reward: { xp: number };
+  state: QuestState;
+  dueAt: string;
+  createdAt: string;
+  acceptedAt?: string;
+  completedAt?: string;
+  expiredAt?: string;
+}
+
+export interface ObjectiveInput {
+  type: ObjectiveType;
+  target: number;
+  topic?: string;
+  minMinutes?: number;
+  description?: string;
+}
+
+export interface QuestInput {
+  title: string;
+  description?: string;
+  objectives: ObjectiveInput[];
+  rewardXp?: number;
+  dueInHours?: number;
+}
+
+export interface QuestResult {
+  quest?: Quest;
+  error?: { status: number; error: string; code: string };
+}
+
+// Allowed state changes; anything else is rejected
+const QUEST_TRANSITIONS: Record<QuestState, QuestState[]> = {
+  available: ['active', 'expired'],
+  active: ['completed', 'expired'],
+  completed: [],
+  expired: []
+};
+
+const OBJECTIVE_EVENTS: Record<ObjectiveType, UserEventType> = {
+  ask_questions: 'message_sent',
+  focus_session: 'focus_session_completed',
+  complete_sessions: 'session_completed',
+  quiz_correct: 'quiz_answer_correct'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_DUE_HOURS = 48;
+// A year; far-off deadlines would also overflow the date range
+const MAX_DUE_HOURS = 24 * 365;
+const DEFAULT_REWARD_XP = 50;
+const TOPIC_QUEST_QUESTIONS = 3;
+
+const STARTER_QUESTS: QuestInput[] = [
+  {
+    title: 'Focus Warrior',
+    description: 'Prove your concentration in a full focus session.',
+    objectives: [{ type: 'focus_session', target: 1, minMinutes: 25 }],
+    rewardXp: 75,
+    dueInHours: 72
+  },
+  {
+    title: 'Quest Closer',
+    description: 'See a study session all the way through.',
+    objectives: [{ type: 'complete_sessions', target: 1 }],
+    rewardXp: 50,
+    dueInHours: 72
+  }
+];
+
+const quests = createCollection<Quest>('quests');
+
+function describeObjective(objective: ObjectiveInput): string {
+  switch (objective.type) {
+    case 'ask_questions':
+      return `Ask ${objective.target} question${objective.target === 1 ? '' : 's'}${objective.topic ? ` about ${objective.topic}` : ''}`;
+    case 'focus_session':
+      return `Complete ${objective.target === 1 ? 'a' : objective.target} ${objective.minMinutes ?? 25}-minute focus session${objective.target === 1 ? '' : 's'}`;
+    case 'complete_sessions':
+      return `Complete ${objective.target} study session${objective.target === 1 ? '' : 's'}`;
+    case 'quiz_correct':
+      return `Answer ${objective.target} quiz question${objective.target === 1 ? '' : 's'} correctly${objective.topic ? ` on ${objective.topic}` : ''}`;
+  }
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Checks a quest sent by a client. rewardXp is not checked: createCustomQuest ignores it.
+export function validateQuestInput(input: QuestInput): string[] {
+  const errors: string[] = [];
+
+  if (typeof input?.title !== 'string' || !input.title.trim()) errors.push('title is required');
+  if (!isOptionalString(input?.description)) errors.push('description must be a string');
+  if (!Array.isArray(input?.objectives) || input.objectives.length === 0) {
+    errors.push('at least one objective is required');
+  } else {
+    input.objectives.forEach((objective, index) => {
+      if (!Object.prototype.hasOwnProperty.call(OBJECTIVE_EVENTS, objective?.type)) {
+        errors.push(`objectives[${index}].type is not supported`);
+      }
+      if (!Number.isInteger(objective?.target) || objective.target < 1) {
+        errors.push(`objectives[${index}].target must be a positive integer`);
+      }
+      if (!isOptionalString(objective?.topic)) errors.push(`objectives[${index}].topic must be a string`);
+      if (!isOptionalString(objective?.description)) errors.push(`objectives[${index}].description must be a string`);
+      if (objective?.minMinutes !== undefined && !isPositiveNumber(objective.minMinutes)) {
+        errors.push(`objectives[${index}].minMinutes must be a positive number`);
+      }
+    });
+  }
+  if (input?.dueInHours !== undefined && (!isPositiveNumber(input.dueInHours) || input.dueInHours > MAX_DUE_HOURS)) {
+    errors.push(`dueInHours must be a positive number up to ${MAX_DUE_HOURS}`);
+  }
+
+  return errors;
+}
+
+export async function createQuest(userId: string, input: QuestInput): Promise<Quest> {
+  const now = Date.now();
+  const quest: Quest = {
+    id: randomUUID(),
+    userId,
+    title: input.title.trim(),
+    description: input.description?.trim() || '',
+    objectives: input.objectives.map(objective => ({
+      id: randomUUID(),
+      type: objective.type,
+      description: objective.description || describeObjective(objective),
+      target: objective.target,
+      current: 0,
+      topic: objective.topic,
+      minMinutes: objective.minMinutes
+    })),
+    reward: { xp: input.rewardXp ?? DEFAULT_REWARD_XP },
+    state: 'available',
+    dueAt: new Date(now + (input.dueInHours ?? DEFAULT_DUE_HOURS) * HOUR_MS).toISOString(),
+    createdAt: new Date(now).toISOString()
+  };
+
+  await quests.set(quest.id, quest);
+  console.log(`📜 Quest "${quest.title}" available for user ${userId}`);
+  return quest;
+}
+
+// Quests students write themselves always earn the standard reward, so a trivial
+// objective cannot be given a huge payout; only built-in quests set their own
+export async function createCustomQuest(userId: string, input: QuestInput): Promise<Quest> {
+  return createQuest(userId, {
+    title: input.title,
+    description: input.description,
+    objectives: input.objectives.map(({ type, target, topic, minMinutes, description }) => ({ type, target, topic, minMinutes, description })),
+    dueInHours: input.dueInHours
+  });
+}
+
+function canTransition(from: QuestState, to: QuestState): boolean {
+  return QUEST_TRANSITIONS[from].includes(to);
+}
+
+// Expire quests whose due date has passed; returns the quest as it is now stored
+async function refreshExpiry(quest: Quest): Promise<Quest> {
+  if (!canTransition(quest.state, 'expired') || Date.parse(quest.dueAt) > Date.now()) {
+    return quest;
+  }
+
+  const expired: Quest = { ...quest, state: 'expired', expiredAt: new Date().toISOString() };
+  await quests.set(quest.id, expired);
+  console.log(`⌛ Quest "${quest.title}" expired for user ${quest.userId}`);
+  return expired;
+}
+
+export async function listQuests(userId: string, state?: QuestState): Promise<Quest[]> {
+  const entries = await quests.entries();
+  const owned = entries.map(([, quest]) => quest).filter(quest => quest.userId === userId);
+
+  // First visit: hand out the starter quests
+  if (owned.length === 0) {
+    for (const starter of STARTER_QUESTS) {
+      owned.push(await createQuest(userId, starter));
+    }
+  }
+
+  const refreshed = await Promise.all(owned.map(refreshExpiry));
+  return refreshed
+    .filter(quest => !state || quest.state === state)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getQuest(questId: string): Promise<Quest | undefined> {
+  const quest = await quests.get(questId);
+  return quest && refreshExpiry(quest);
+}
+
+export async function acceptQuest(questId: string, userId?: string): Promise<QuestResult> {
+  const quest = await getQuest(questId);
+  if (!quest) {
+    return { error: { status: 404, error: 'Quest not found', code: 'QUEST_NOT_FOUND' } };
+  }
+  if (userId && quest.userId !== userId) {
+    return { error: { status: 403, error: 'Quest belongs to another user', code: 'QUEST_FORBIDDEN' } };
+  }
+  if (!canTransition(quest.state, 'active')) {
+    return { error: { status: 409, error: `Cannot accept a quest that is ${quest.state}`, code: 'INVALID_QUEST_STATE' } };
+  }
+
+  const accepted: Quest = { ...quest, state: 'active', acceptedAt: new Date().toISOString() };
+  await quests.set(questId, accepted);
+  console.log(`⚔️ Quest "${quest.title}" accepted by user ${quest.userId}`);
+  return { quest: accepted };
+}
+
+function eventMatchesTopic(objective: QuestObjective, event: UserEvent): boolean {
+  if (!objective.topic) return true;
+
+  const topic = objective.topic.toLowerCase();
+  const candidates = [event.data?.subject, event.data?.topic, event.data?.message];
+  return candidates.some(value => typeof value === 'string' && value.toLowerCase().includes(topic));
+}
+
+function objectiveIncrement(objective: QuestObjective, event: UserEvent): number {
+  if (OBJECTIVE_EVENTS[objective.type] !== event.type) return 0;
+  if (!eventMatchesTopic(objective, event)) return 0;
+
+  if (objective.type === 'focus_session') {
+    const minutes = typeof event.data?.minutes === 'number' ? event.data.minutes : 0;
+    return minutes >= (objective.minMinutes ?? 0) ? 1 : 0;
+  }
+  return 1;
+}
+
+// Advance every active quest's objectives with this event and complete the finished ones
+export async function advanceQuests(event: UserEvent): Promise<Quest[]> {
+  const entries = await quests.entries();
+  const active = entries
+    .map(([, quest]) => quest)
+    .filter(quest => quest.userId === event.userId && quest.state === 'active');
+  const completed: Quest[] = [];
+
+  for (const stored of active) {
+    const quest = await refreshExpiry(stored);
+    if (quest.state !== 'active') continue;
+
+    let changed = false;
+    const objectives = quest.objectives.map(objective => {
+      const increment = objectiveIncrement(objective, event);
+      if (increment === 0 || objective.current >= objective.target) return objective;
+      changed = true;
+      return { ...objective, current: Math.min(objective.current + increment, objective.target) };
+    });
+    if (!changed) continue;
+
+    const done = objectives.every(objective => objective.current >= objective.target);
+    const updated: Quest = done
+      ? { ...quest, objectives, state: 'completed', completedAt: new Date().toISOString() }
+      : { ...quest, objectives };
+    await quests.set(quest.id, updated);
+
+    if (done) {
+      completed.push(updated);
+      console.log(`🎯 Quest "${quest.title}" completed by user ${quest.userId}`);
+      if (updated.reward.xp > 0) {
+        await awardXp(quest.userId, updated.reward.xp, `Quest Complete: ${quest.title}`);
+      }
+    }
+  }
+
+  return completed;
+}
+
+// "New Quest Unlocked: [Topic]" - offer a topic quest the first time a subject comes up
+async function offerTopicQuest(event: UserEvent): Promise<void> {
+  const subject = event.data?.subject;
+  if (event.type !== 'message_sent' || typeof subject !== 'string') return;
+
+  const existing = await listQuests(event.userId);
+  const hasOpenQuest = existing.some(quest =>
+    (quest.state === 'available' || quest.state === 'active') &&
+    quest.objectives.some(objective => objective.topic?.toLowerCase() === subject.toLowerCase())
+  );
+  if (hasOpenQuest) return;
+
+  await createQuest(event.userId, {
+    title: `${subject} Explorer`,
+    description: `New Quest Unlocked: ${subject}! Dig deeper with Captain Focus.`,
+    objectives: [{ type: 'ask_questions', target: TOPIC_QUEST_QUESTIONS, topic: subject }]
+  });
+}
+
+onUserEvent(async (event) => {
+  await advanceQuests(event);
+  await offerTopicQuest(event);
+});
@@ -0,0 +1,371 @@
+import { randomUUID } from 'crypto';
+import questionBank from './quizBank.json';
+import { createCollection } from './storage';
+import { emitUserEvent } from './userEvents';
+import { awardXp } from './progression';
+import { detectSubject } from './subjectDetector';
+import { completeWithProviders } from './providers';
+
+// "Boss Battle" quizzes: a generated set of questions on a topic, answered one
+// (or several) at a time. Every correct answer is a hit on the boss.
+
+export type QuizDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export type QuestionType = 'multiple_choice' | 'short_answer';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuestionType;
+  prompt: string;
+  choices?: string[];
+  answer: string;
+  // short_answer: other phrasings that count as exactly right
+  acceptedAnswers?: string[];
+  // short_answer: key ideas an answer must mention to count as right
+  rubric?: { keywords: string[]; minMatches: number };
+  explanation?: string;
+}
+
+export interface QuestionResult {
+  questionId: string;
+  answer: string;
+  correct: boolean;
+  // 0-1, partial credit for short answers that hit some rubric keywords
+  score: number;
+  feedback: string;
+  correctAnswer: string;
+  explanation?: string;
+  answeredAt: string;
+}
+
+export interface Quiz {
+  id: string;
+  userId: string;
+  topic: string;
+  subject: string;
+  difficulty: QuizDifficulty;
+  source: 'generated' | 'bank';
+  questions: QuizQuestion[];
+  results: Record<string, QuestionResult>;
+  status: 'in_progress' | 'completed';
+  createdAt: string;
+  completedAt?: string;
+}
+
+// What the student sees: answers stay hidden until a question has been answered
+export interface QuizView {
+  id: string;
+  topic: string;
+  subject: string;
+  difficulty: QuizDifficulty;
+  source: Quiz['source'];
+  status: Quiz['status'];
+  questions: Array<Pick<QuizQuestion, 'id' | 'type' | 'prompt' | 'choices'> & { result?: QuestionResult }>;
+  progress: { answered: number; correct: number; total: number };
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface QuizInput {
+  topic: string;
+  difficulty?: QuizDifficulty;
+  count?: number;
+}
+
+export interface QuizResult {
+  quiz?: Quiz;
+  results?: QuestionResult[];
+  error?: { status: number; error: string; code: string };
+}
+
+type BankQuestion = Omit<QuizQuestion, 'id'> & { difficulty: QuizDifficulty };
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+const DEFAULT_QUESTION_COUNT = 5;
+const MAX_QUESTION_COUNT = 10;
+const FALLBACK_SUBJECT = 'General';
+const FLAWLESS_BONUS_XP = 50;
+
+const QUIZ_MASTER_PROMPT = `You are the quiz master for Captain Focus, a gamified study companion.
+Write quiz questions as a JSON array and nothing else. Each item is either
+{"type":"multiple_choice","prompt":"...","choices":["...","...","...","..."],"answer":"<one of the choices, copied exactly>","explanation":"..."}
+or
+{"type":"short_answer","prompt":"...","answer":"...","acceptedAnswers":["..."],"rubric":{"keywords":["..."],"minMatches":1},"explanation":"..."}.
+Short answers must have a brief, checkable answer.`;
+
+const quizzes = createCollection<Quiz>('quizzes');
+const bank = questionBank as Record<string, BankQuestion[]>;
+
+export function validateQuizInput(input: QuizInput): string[] {
+  const errors: string[] = [];
+
+  if (typeof input?.topic !== 'string' || !input.topic.trim()) errors.push('topic is required');
+  if (input?.difficulty !== undefined && !QUIZ_DIFFICULTIES.includes(input.difficulty)) {
+    errors.push(`difficulty must be one of: ${QUIZ_DIFFICULTIES.join(', ')}`);
+  }
+  if (input?.count !== undefined && (!Number.isInteger(input.count) || input.count < 1 || input.count > MAX_QUESTION_COUNT)) {
+    errors.push(`count must be a whole number between 1 and ${MAX_QUESTION_COUNT}`);
+  }
+
+  return errors;
+}
+
+// Keep only well-formed questions from model output
+function sanitizeQuestion(raw: unknown): Omit<QuizQuestion, 'id'> | undefined {
+  const question = raw as Partial<QuizQuestion>;
+  if (typeof question?.prompt !== 'string' || typeof question.answer !== 'string') return undefined;
+
+  if (question.type === 'multiple_choice') {
+    const choices = Array.isArray(question.choices) ? question.choices.filter(choice => typeof choice === 'string') : [];
+    if (choices.length < 2 || !choices.includes(question.answer)) return undefined;
+    return { type: 'multiple_choice', prompt: question.prompt, choices, answer: question.answer, explanation: question.explanation };
+  }
+
+  if (question.type === 'short_answer') {
+    const keywords = question.rubric?.keywords?.filter(keyword => typeof keyword === 'string') ?? [];
+    return {
+      type: 'short_answer',
+      prompt: question.prompt,
+      answer: question.answer,
+      acceptedAnswers: question.acceptedAnswers?.filter(answer => typeof answer === 'string'),
+      rubric: keywords.length > 0
+        ? { keywords, minMatches: Math.min(Math.max(Number(question.rubric?.minMatches) || 1, 1), keywords.length) }
+        : undefined,
+      explanation: question.explanation
+    };
+  }
+
+  return undefined;
+}
+
+async function generateWithModel(topic: string, difficulty: QuizDifficulty, count: number): Promise<Array<Omit<QuizQuestion, 'id'>>> {
+  const result = await completeWithProviders({
+    message: `Create ${count} ${difficulty} questions about "${topic}". Mix multiple choice and short answer.`,
+    history: [],
+    systemPrompt: QUIZ_MASTER_PROMPT,
+    model: 'gpt-4o-mini',
+    temperature: 0.4,
+    maxTokens: 1200
+  });
+
+  const json = result.text.match(/\[[\s\S]*\]/)?.[0];
+  if (!json) return [];
+
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .map(sanitizeQuestion)
+    .filter((question): question is Omit<QuizQuestion, 'id'> => !!question)
+    .slice(0, count);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Built-in questions for the subject, preferring ones about the topic, then the chosen difficulty
+function drawFromBank(topic: string, subject: string, difficulty: QuizDifficulty, count: number): Array<Omit<QuizQuestion, 'id'>> {
+  const pool = bank[subject] ?? bank[FALLBACK_SUBJECT];
+  const topicWords = normalizeAnswer(topic).split(' ').filter(word => word.length > 3);
+  const rank = (question: BankQuestion) => {
+    const text = normalizeAnswer(`${question.prompt} ${question.answer}`);
+    const onTopic = topicWords.some(word => text.includes(word)) ? 2 : 0;
+    return onTopic + (question.difficulty === difficulty ? 1 : 0);
+  };
+
+  return shuffle(pool)
+    .sort((a, b) => rank(b) - rank(a))
+    .slice(0, count)
+    .map(({ difficulty: _difficulty, ...question }) => question);
+}
+
+export async function createQuiz(userId: string, input: QuizInput): Promise<Quiz> {
+  const topic = input.topic.trim();
+  const difficulty = input.difficulty ?? 'intermediate';
+  const count = input.count ?? DEFAULT_QUESTION_COUNT;
+  const subject = detectSubject(topic) ?? FALLBACK_SUBJECT;
+
+  let source: Quiz['source'] = 'generated';
+  let questions: Array<Omit<QuizQuestion, 'id'>> = [];
+  try {
+    questions = await generateWithModel(topic, difficulty, count);
+  } catch (error) {
+    console.warn('⚠️ Quiz generation failed, using the question bank:', error instanceof Error ? error.message : error);
+  }
+
+  if (questions.length === 0) {
+    source = 'bank';
+    questions = drawFromBank(topic, subject, difficulty, count);
+  }
+
+  const quiz: Quiz = {
+    id: randomUUID(),
+    userId,
+    topic,
+    subject,
+    difficulty,
+    source,
+    questions: questions.map((question, index) => ({ id: `q${index + 1}`, ...question })),
+    results: {},
+    status: 'in_progress',
+    createdAt: new Date().toISOString()
+  };
+
+  await quizzes.set(quiz.id, quiz);
+  console.log(`⚔️ Boss Battle ${quiz.id} ready for user ${userId}: ${topic} (${difficulty}, ${quiz.questions.length} questions from ${source})`);
+  return quiz;
+}
+
+export function toQuizView(quiz: Quiz): QuizView {
+  const results = Object.values(quiz.results);
+
+  return {
+    id: quiz.id,
+    topic: quiz.topic,
+    subject: quiz.subject,
+    difficulty: quiz.difficulty,
+    source: quiz.source,
+    status: quiz.status,
+    questions: quiz.questions.map(({ id, type, prompt, choices }) => ({ id, type, prompt, choices, result: quiz.results[id] })),
+    progress: {
+      answered: results.length,
+      correct: results.filter(result => result.correct).length,
+      total: quiz.questions.length
+    },
+    createdAt: quiz.createdAt,
+    completedAt: quiz.completedAt
+  };
+}
+
+export async function getQuiz(quizId: string): Promise<Quiz | undefined> {
+  return quizzes.get(quizId);
+}
+
+export async function listQuizzes(userId: string): Promise<Quiz[]> {
+  const entries = await quizzes.entries();
+  return entries
+    .map(([, quiz]) => quiz)
+    .filter(quiz => quiz.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Lowercase, fold unicode (x² -> x2), drop punctuation and articles
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(the|a|an)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function gradeAnswer(question: QuizQuestion, answer: string): Omit<QuestionResult, 'questionId' | 'answeredAt'> {
+  const base = { answer, correctAnswer: question.answer, explanation: question.explanation };
+
+  if (question.type === 'multiple_choice') {
+    const correct = answer.trim() === question.answer;
+    return {
+      ...base,
+      correct,
+      score: correct ? 1 : 0,
+      feedback: correct ? 'Critical hit! ⚔️ That is exactly right.' : `The boss blocked that one! The answer was "${question.answer}".`
+    };
+  }
+
+  const normalized = normalizeAnswer(answer);
+  const accepted = [question.answer, ...(question.acceptedAnswers ?? [])].map(normalizeAnswer);
+  if (normalized && accepted.includes(normalized)) {
+    return { ...base, correct: true, score: 1, feedback: 'Critical hit! ⚔️ Spot on.' };
+  }
+
+  if (question.rubric && normalized) {
+    const matched = question.rubric.keywords.filter(keyword =>
+      new RegExp(`\\b${escapeRegExp(normalizeAnswer(keyword))}`).test(normalized)
+    );
+    const score = Math.min(matched.length / question.rubric.minMatches, 1);
+
+    if (matched.length >= question.rubric.minMatches) {
+      return { ...base, correct: true, score: 1, feedback: `Hit! 🎯 You covered the key ideas: ${matched.join(', ')}.` };
+    }
+    if (matched.length > 0) {
+      return {
+        ...base,
+        correct: false,
+        score: Number(score.toFixed(2)),
+        feedback: `Glancing blow! You mentioned ${matched.join(', ')}, but a full answer is: "${question.answer}".`
+      };
+    }
+  }
+
+  return { ...base, correct: false, score: 0, feedback: `The boss blocked that one! A good answer is: "${question.answer}".` };
+}
+
+// Grade any not-yet-answered questions; finishing the last one completes the battle
+export async function answerQuiz(
+  quizId: string,
+  answers: Array<{ questionId: string; answer: string }>,
+  userId?: string
+): Promise<QuizResult> {
+  const quiz = await quizzes.get(quizId);
+  if (!quiz) {
+    return { error: { status: 404, error: 'Quiz not found', code: 'QUIZ_NOT_FOUND' } };
+  }
+  if (userId && quiz.userId !== userId) {
+    return { error: { status: 403, error: 'Quiz belongs to another user', code: 'QUIZ_FORBIDDEN' } };
+  }
+  if (quiz.status === 'completed') {
+    return { error: { status: 409, error: 'This Boss Battle is already over', code: 'QUIZ_COMPLETED' } };
+  }
+
+  const unknown = answers.find(({ questionId }) => !quiz.questions.some(question => question.id === questionId));
+  if (unknown) {
+    return { error: { status: 400, error: `Unknown question ${unknown.questionId}`, code: 'UNKNOWN_QUESTION' } };
+  }
+
+  const now = new Date().toISOString();
+  const results: QuestionResult[] = [];
+  for (const { questionId, answer } of answers) {
+    if (quiz.results[questionId] || results.some(result => result.questionId === questionId)) continue;
+
+    const question = quiz.questions.find(candidate => candidate.id === questionId) as QuizQuestion;
+    results.push({ questionId, answeredAt: now, ...gradeAnswer(question, String(answer ?? '')) });
+  }
+
+  const allResults = { ...quiz.results, ...Object.fromEntries(results.map(result => [result.questionId, result])) };
+  const finished = quiz.questions.every(question => allResults[question.id]);
+  const updated: Quiz = {
+    ...quiz,
+    results: allResults,
+    status: finished ? 'completed' : 'in_progress',
+    completedAt: finished ? now : undefined
+  };
+  await quizzes.set(quizId, updated);
+
+  const eventData = { quizId, topic: quiz.topic, subject: quiz.subject, difficulty: quiz.difficulty };
+  for (const result of results.filter(candidate => candidate.correct)) {
+    await emitUserEvent(quiz.userId, 'quiz_answer_correct', { ...eventData, questionId: result.questionId });
+  }
+
+  if (finished) {
+    const correct = Object.values(allResults).filter(result => result.correct).length;
+    console.log(`🏁 Boss Battle ${quizId} finished: ${correct}/${quiz.questions.length}`);
+    await emitUserEvent(quiz.userId, 'quiz_completed', { ...eventData, correct, total: quiz.questions.length });
+
+    if (correct === quiz.questions.length) {
+      await awardXp(quiz.userId, FLAWLESS_BONUS_XP, `Flawless Victory: ${quiz.topic}`);
+    }
+  }
+
+  return { quiz: updated, results };
+}
@@ -0,0 +1,210 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { createCollection } from './storage';
+
+export type RateLimitRoute = 'api' | 'auth' | 'chat' | 'agent' | 'quiz';
+
+export interface RateLimitPolicy {
+  // Sustained requests per minute; the bucket refills at this rate
+  perMinute: number;
+  // Requests that can be made back to back from a full bucket
+  burst: number;
+  // Who gets their own bucket. 'user' falls back to the IP for anonymous callers.
+  keys: Array<'ip' | 'user'>;
+  // Requests per signed-in user per UTC day
+  dailyQuota?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QuotaRecord {
+  // UTC date (YYYY-MM-DD) the counts belong to; counts reset when it changes
+  day: string;
+  counts: Partial<Record<RateLimitRoute, number>>;
+}
+
+// The most constrained limit a request ran into, reported through the RateLimit-* headers
+interface LimitState {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  windowSeconds: number;
+}
+
+const DEFAULT_POLICIES: Record<RateLimitRoute, RateLimitPolicy> = {
+  api: { perMinute: 300, burst: 100, keys: ['ip'] },
+  auth: { perMinute: 5, burst: 10, keys: ['ip'] },
+  chat: { perMinute: 10, burst: 5, keys: ['ip', 'user'], dailyQuota: 200 },
+  agent: { perMinute: 2, burst: 3, keys: ['user'] },
+  quiz: { perMinute: 5, burst: 5, keys: ['user'] }
+};
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false';
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// RATE_LIMIT_<ROUTE>_PER_MINUTE and RATE_LIMIT_<ROUTE>_BURST override a route's
+// bucket; DAILY_MESSAGE_QUOTA overrides the chat quota
+function loadPolicies(): Record<RateLimitRoute, RateLimitPolicy> {
+  const policies = { ...DEFAULT_POLICIES };
+  for (const route of Object.keys(policies) as RateLimitRoute[]) {
+    const prefix = `RATE_LIMIT_${route.toUpperCase()}`;
+    policies[route] = {
+      ...policies[route],
+      perMinute: envNumber(`${prefix}_PER_MINUTE`) ?? policies[route].perMinute,
+      burst: envNumber(`${prefix}_BURST`) ?? policies[route].burst
+    };
+  }
+  policies.chat.dailyQuota = envNumber('DAILY_MESSAGE_QUOTA') ?? policies.chat.dailyQuota;
+  return policies;
+}
+
+export const RATE_LIMIT_POLICIES = loadPolicies();
+
+// Buckets are cheap to rebuild, so they live in memory; quotas must survive restarts
+const buckets = new Map<string, Bucket>();
+const quotas = createCollection<QuotaRecord>('quotas');
+
+function refill(bucket: Bucket, policy: RateLimitPolicy, now: number): number {
+  const elapsedMinutes = (now - bucket.updatedAt) / 60000;
+  return Math.min(policy.burst, bucket.tokens + elapsedMinutes * policy.perMinute);
+}
+
+// Drop buckets that have refilled completely; they behave exactly like missing ones
+const sweeper = setInterval(() => {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    const policy = RATE_LIMIT_POLICIES[key.split(':')[0] as RateLimitRoute];
+    if (!policy || refill(bucket, policy, now) >= policy.burst) buckets.delete(key);
+  }
+}, SWEEP_INTERVAL_MS);
+sweeper.unref();
+
+function bucketKeys(route: RateLimitRoute, policy: RateLimitPolicy, req: Request): string[] {
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  return policy.keys.map(kind =>
+    kind === 'user' && req.user ? `${route}:user:${req.user.id}` : `${route}:ip:${ip}`
+  );
+}
+
+function secondsUntilUtcMidnight(now: Date): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+function setRateLimitHeaders(res: Response, state: LimitState): void {
+  res.setHeader('RateLimit-Limit', String(state.limit));
+  res.setHeader('RateLimit-Remaining', String(Math.max(0, state.remaining)));
+  res.setHeader('RateLimit-Reset', String(state.resetSeconds));
+  res.setHeader('RateLimit-Policy', `${state.limit};w=${state.windowSeconds}`);
+}
+
+function reject(res: Response, retryAfter: number, body: { error: string; message: string; limit: string }): void {
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    success: false,
+    ...body,
+    code: 'RATE_LIMITED',
+    retryAfter,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Take one token from every bucket the request falls into, or none if any is empty
+function consumeBuckets(route: RateLimitRoute, policy: RateLimitPolicy, req: Request): { state: LimitState; retryAfter?: number } {
+  const now = Date.now();
+  const keys = bucketKeys(route, policy, req);
+  const levels = keys.map(key => {
+    const bucket = buckets.get(key);
+    return bucket ? refill(bucket, policy, now) : policy.burst;
+  });
+  const lowest = Math.min(...levels);
+  const secondsPerToken = 60 / policy.perMinute;
+
+  const allowed = lowest >= 1;
+  if (allowed) {
+    keys.forEach((key, index) => buckets.set(key, { tokens: levels[index] - 1, updatedAt: now }));
+  }
+
+  const remaining = allowed ? lowest - 1 : lowest;
+  return {
+    state: {
+      limit: policy.burst,
+      remaining: Math.floor(remaining),
+      resetSeconds: Math.ceil((policy.burst - remaining) * secondsPerToken),
+      windowSeconds: Math.ceil(policy.burst * secondsPerToken)
+    },
+    retryAfter: allowed ? undefined : Math.max(1, Math.ceil((1 - lowest) * secondsPerToken))
+  };
+}
+
+async function consumeQuota(route: RateLimitRoute, userId: string, quota: number): Promise<{ state: LimitState; used: number; allowed: boolean }> {
+  const now = new Date();
+  const day = now.toISOString().slice(0, 10);
+  const stored = await quotas.get(userId);
+  const record: QuotaRecord = stored?.day === day ? stored : { day, counts: {} };
+  const used = record.counts[route] ?? 0;
+  const allowed = used < quota;
+
+  if (allowed) {
+    await quotas.set(userId, { day, counts: { ...record.counts, [route]: used + 1 } });
+  }
+
+  const resetSeconds = secondsUntilUtcMidnight(now);
+  return {
+    state: { limit: quota, remaining: quota - used - (allowed ? 1 : 0), resetSeconds, windowSeconds: 86400 },
+    used,
+    allowed
+  };
+}
+
+// Middleware enforcing a route's token buckets and, for signed-in users, its daily quota.
+// Mount it after requireAuth when the per-user bucket should always apply.
+export function rateLimit(route: RateLimitRoute): RequestHandler {
+  const policy = RATE_LIMIT_POLICIES[route];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!RATE_LIMIT_ENABLED) return next();
+
+    const { state, retryAfter } = consumeBuckets(route, policy, req);
+    if (retryAfter !== undefined) {
+      setRateLimitHeaders(res, state);
+      reject(res, retryAfter, {
+        error: 'Too many requests',
+        message: `Slow down, scholar! Try again in ${retryAfter} seconds.`,
+        limit: route
+      });
+      return;
+    }
+
+    let tightest = state;
+    if (policy.dailyQuota && req.user) {
+      try {
+        const quota = await consumeQuota(route, req.user.id, policy.dailyQuota);
+        if (!quota.allowed) {
+          setRateLimitHeaders(res, quota.state);
+          reject(res, quota.state.resetSeconds, {
+            error: 'Daily limit reached',
+            message: `You've used all ${policy.dailyQuota} messages for today. Your quota resets at midnight UTC.`,
+            limit: `${route}-daily`
+          });
+          return;
+        }
+        if (quota.state.remaining < tightest.remaining) tightest = quota.state;
+      } catch (error) {
+        // A broken quota store should not take chat down with it
+        console.error('❌ Failed to check daily quota:', error);
+      }
+    }
+
+    setRateLimitHeaders(res, tightest);
+    next();
+  };
+}
@@ -1,17 +1,210 @@
+// Load environment variables before any module reads them
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import { createOmnidimensionAgent, sendMessageToAgent, checkOmnidimensionHealth } from './omnidimensionServices';
+import {
+  createOmnidimensionAgent,
+  sendMessageToAgent,
+  streamMessageToAgent,
+  replyLocally,
+  AgentReply
+} from './omnidimensionServices';
+import { omnidimensionBreaker } from './omnidimensionClient';
+import { getHealthReport, getDependencyHealth, startHealthMonitor } from './healthMonitor';
+import { METRICS_CONTENT_TYPE, httpMetrics, registerGauge, renderMetrics } from './metrics';
+import { agentStore, AgentRecord } from './agentStore';
+import { AuthUser, authenticate, requireAuth, requireAdmin, requireSelf, registerUser, loginUser, bootstrapAdmin, validateCredentials } from './auth';
+import { rateLimit } from './rateLimit';
+import { STORAGE_DRIVER } from './storage';
+import { emitUserEvent } from './userEvents';
+import { getProgress } from './progression';
+import { getAchievements } from './achievements';
+import { QuestState, createCustomQuest, listQuests, getQuest, acceptQuest, validateQuestInput } from './quests';
+import { detectSubject } from './subjectDetector';
+import { classifyEmotion } from '../shared/emotion';
+import {
+  FocusResult,
+  startFocusSession,
+  listFocusSessions,
+  pauseFocusSession,
+  resumeFocusSession,
+  stopFocusSession,
+  validateFocusInput
+} from './focusSessions';
+import { QuizDifficulty, createQuiz, listQuizzes, getQuiz, answerQuiz, toQuizView, validateQuizInput } from './quizzes';
+import { createFlashcardsFromSession, listFlashcards, getDueSummary, reviewFlashcard, deleteFlashcard } from './flashcards';
+import { getAnalytics, isTzOffset, DEFAULT_ANALYTICS_DAYS, MAX_ANALYTICS_DAYS, MAX_TZ_OFFSET_MINUTES } from './analytics';
+import { LearningMode, LEARNING_MODES, validateLearningMode } from './learningModes';
+import { getSkillLevels } from './skillLevels';
+import {
+  Persona,
+  DEFAULT_PERSONA_ID,
+  getDefaultPersona,
+  getPersona,
+  getPersonaVersions,
+  listPersonas,
+  createPersona,
+  updatePersona,
+  deletePersona,
+  renderSystemPrompt,
+  validatePersonaId,
+  validatePersonaInput
+} from './personas';
+import {
+  SIGNATURE_HEADER,
+  SECRET_HEADER,
+  verifyWebhookRequest,
+  parsePostCallPayload,
+  handlePostCall
+} from './omnidimensionWebhooks';
+import {
+  ConversationSession,
+  createSession,
+  getSession,
+  listSessions,
+  updateSession,
+  resumeSession,
+  completeSession,
+  deleteSession,
+  summarizeSession,
+  countSessionsByStatus,
+  hasExchange
+} from './sessionStore';
 
 
-// Load environment variables
-dotenv.config();
-
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Store active agents (in production, use a database like Redis)
-const activeAgents = new Map<string, string>();
+// Register a freshly created agent for a user in the agent store
+async function registerAgent(userId: string, agentId: string, persona: Persona): Promise<AgentRecord> {
+  const now = new Date().toISOString();
+  const record: AgentRecord = {
+    agentId,
+    userId,
+    personaId: persona.id,
+    personaVersion: persona.version,
+    createdAt: now,
+    lastUsedAt: now
+  };
+  await agentStore.save(record);
+  return record;
+}
+
+// The user's agent for a persona, created on first use and re-created when it was built
+// from an older version of that persona
+async function ensureAgent(userId: string, persona: Persona): Promise<{ record: AgentRecord; isNew: boolean }> {
+  const existing = await agentStore.findByUser(userId, persona.id);
+  if (existing && existing.personaVersion === persona.version) {
+    return { record: existing, isNew: false };
+  }
+
+  if (existing) {
+    console.log(`♻️ Agent ${existing.agentId} was built from ${persona.id} v${existing.personaVersion}, re-creating with v${persona.version}`);
+  } else {
+    console.log(`🚀 Creating new ${persona.name} agent for user: ${userId}`);
+  }
+  const agentId = await createOmnidimensionAgent(persona);
+  return { record: await registerAgent(userId, agentId, persona), isNew: true };
+}
+
+interface PersonaLookup {
+  persona?: Persona;
+  error?: { status: number; error: string; code: string };
+}
+
+// Look up a requested persona; no id means the default persona
+async function findPersona(personaId: unknown): Promise<PersonaLookup> {
+  if (personaId === undefined || personaId === null || personaId === '') {
+    return { persona: await getDefaultPersona() };
+  }
+  if (typeof personaId !== 'string') {
+    return { error: { status: 400, error: 'personaId must be a string', code: 'INVALID_PERSONA_ID' } };
+  }
+
+  const persona = await getPersona(personaId);
+  return persona
+    ? { persona }
+    : { error: { status: 404, error: 'Persona not found', code: 'PERSONA_NOT_FOUND' } };
+}
+
+// Shape a persona for API responses, with the system prompt it renders to
+function toPersonaView(persona: Persona) {
+  return { ...persona, systemPrompt: renderSystemPrompt(persona) };
+}
+
+interface SessionLookup {
+  session?: ConversationSession;
+  error?: { status: number; error: string; code: string };
+}
+
+// Find a session and make sure it belongs to the requesting user (when one is given)
+async function findOwnedSession(sessionId: string, userId?: string): Promise<SessionLookup> {
+  const session = await getSession(sessionId);
+  if (!session) {
+    return { error: { status: 404, error: 'Conversation session not found', code: 'SESSION_NOT_FOUND' } };
+  }
+  if (userId && session.userId !== userId) {
+    return { error: { status: 403, error: 'Session belongs to another user', code: 'SESSION_FORBIDDEN' } };
+  }
+  return { session };
+}
+
+// Emit the user event for a chat turn, tagged with the subject being studied and the
+// client's timezone offset (ignored unless valid) so achievements can use local time
+async function recordChatMessage(
+  userId: string,
+  message: string,
+  session?: ConversationSession,
+  mode?: LearningMode,
+  tzOffset?: unknown
+): Promise<void> {
+  const sessionSubject = session && session.subject !== 'General' ? session.subject : undefined;
+  const emotion = classifyEmotion(message);
+  await emitUserEvent(userId, 'message_sent', {
+    sessionId: session?.id,
+    message,
+    subject: detectSubject(message) ?? sessionSubject,
+    mood: emotion.mood,
+    moodConfidence: emotion.confidence,
+    learningMode: mode ? LEARNING_MODES[mode].label : undefined,
+    tzOffsetMinutes: isTzOffset(tzOffset) ? tzOffset : undefined
+  });
+}
+
+// Write one Server-Sent Events frame
+function writeSseEvent(res: express.Response, event: string, data: object): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+interface ChatTarget extends SessionLookup {
+  persona?: Persona;
+}
+
+// Use the requested session for a chat, or start a new one for the user, and work out the
+// persona: the requested one, else the session's, else the default. A session that is
+// switched to another persona remembers it.
+async function resolveChatSession(userId: string, sessionId?: string, personaId?: unknown): Promise<ChatTarget> {
+  const requested = personaId === undefined ? undefined : await findPersona(personaId);
+  if (requested?.error) return { error: requested.error };
+
+  if (!sessionId) {
+    const { persona } = requested ?? await findPersona(undefined);
+    return { session: await createSession(userId, { personaId: persona?.id }), persona };
+  }
+
+  const { session, error } = await findOwnedSession(sessionId, userId);
+  if (error || !session) return { error };
+
+  const { persona, error: personaError } = requested ?? await findPersona(session.personaId);
+  if (personaError || !persona) {
+    // The session's persona was deleted; carry on with the default one
+    return { session, persona: await getDefaultPersona() };
+  }
+  if (persona.id !== (session.personaId ?? DEFAULT_PERSONA_ID)) {
+    return { session: await updateSession(session.id, { personaId: persona.id }) ?? session, persona };
+  }
+  return { session, persona };
+}
 
 // CORS configuration
 const corsOptions = {
@@ -22,12 +215,28 @@ const corsOptions = {
       ]
     : ['http://localhost:5173', 'http://127.0.0.1:5173'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
+  // Let the frontend read how long to wait after a 429
+  exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy']
 };
 
+// Behind a proxy (Render, Netlify, nginx) req.ip is only the client's address when the proxy is trusted
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 app.use(cors(corsOptions));
-app.use(express.json({ limit: '10mb' }));
+type RawBodyRequest = express.Request & { rawBody?: Buffer };
+
+// Keep the raw body around so webhook signatures can be checked byte for byte
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Basic security headers
@@ -45,8 +254,17 @@ app.use((req, res, next) => {
   next();
 });
 
+// Request counts and latency per route for /metrics
+app.use(httpMetrics());
+
+// Who is calling: sets req.user from the bearer token, if one is sent
+app.use(authenticate);
+
+// Per-IP ceiling for the whole API; busier routes add their own buckets below
+app.use('/api', rateLimit('api'));
+
 // Root endpoint
-app.get('/', (req, res) => {
+app.get('/', async (req, res) => {
   res.json({
     name: 'Captain Focus Backend API',
     version: '1.0.0',
@@ -54,28 +272,85 @@ app.get('/', (req, res) => {
     message: 'Backend is ready for Omnidimension integration!',
     endpoints: {
       health: '/api/health',
+      health_live: '/api/health/live',
+      health_ready: '/api/health/ready',
+      metrics: '/metrics',
       agent_health: '/api/agent/health',
+      register: 'POST /api/auth/register',
+      login: 'POST /api/auth/login',
+      me: 'GET /api/auth/me',
       create_agent: 'POST /api/agent/create',
       chat: 'POST /api/chat',
       agent_chat: 'POST /api/agent/chat',
+      agent_chat_stream: 'POST /api/agent/chat/stream (SSE)',
       agent_status: 'GET /api/agent/status/:agentId',
-      list_agents: 'GET /api/agent/list'
+      list_agents: 'GET /api/agent/list',
+      list_personas: 'GET /api/personas',
+      get_persona: 'GET /api/personas/:personaId?version=',
+      persona_versions: 'GET /api/personas/:personaId/versions',
+      create_persona: 'POST /api/personas (admin)',
+      update_persona: 'PUT /api/personas/:personaId (admin)',
+      delete_persona: 'DELETE /api/personas/:personaId (admin)',
+      learning_modes: 'GET /api/learning-modes',
+      create_session: 'POST /api/sessions',
+      list_sessions: 'GET /api/sessions',
+      get_session: 'GET /api/sessions/:sessionId',
+      rename_session: 'PATCH /api/sessions/:sessionId',
+      resume_session: 'POST /api/sessions/:sessionId/resume',
+      complete_session: 'POST /api/sessions/:sessionId/complete',
+      delete_session: 'DELETE /api/sessions/:sessionId',
+      progress: 'GET /api/progress/:userId',
+      achievements: 'GET /api/achievements/:userId',
+      list_quests: 'GET /api/quests/:userId?state=',
+      create_quest: 'POST /api/quests',
+      get_quest: 'GET /api/quests/detail/:questId',
+      accept_quest: 'POST /api/quests/:questId/accept',
+      start_focus: 'POST /api/focus-sessions',
+      list_focus: 'GET /api/focus-sessions',
+      pause_focus: 'POST /api/focus-sessions/:focusSessionId/pause',
+      resume_focus: 'POST /api/focus-sessions/:focusSessionId/resume',
+      stop_focus: 'POST /api/focus-sessions/:focusSessionId/stop',
+      create_flashcards: 'POST /api/sessions/:sessionId/flashcards',
+      list_flashcards: 'GET /api/flashcards/:userId?due=true',
+      flashcards_due: 'GET /api/flashcards/:userId/due',
+      review_flashcard: 'POST /api/flashcards/:cardId/review',
+      delete_flashcard: 'DELETE /api/flashcards/:cardId',
+      create_quiz: 'POST /api/quizzes',
+      list_quizzes: 'GET /api/quizzes',
+      get_quiz: 'GET /api/quizzes/:quizId',
+      answer_quiz: 'POST /api/quizzes/:quizId/answers',
+      analytics: 'GET /api/analytics/:userId?days=&tzOffset=',
+      skills: 'GET /api/skills/:userId',
+      omnidimension_webhook: 'POST /api/webhooks/omnidimension'
     },
     environment: {
       nodeEnv: process.env.NODE_ENV || 'development',
       omnidimensionConfigured: !!process.env.OMNIDIMENSION_API_KEY,
-      activeAgents: activeAgents.size
+      storageDriver: STORAGE_DRIVER,
+      activeAgents: await agentStore.count()
     },
     timestamp: new Date().toISOString()
   });
 });
 
-// Health check endpoint
+const HEALTH_MESSAGES: Record<string, string> = {
+  healthy: 'Server is running perfectly!',
+  degraded: 'Server is running, but some dependencies are unavailable',
+  unhealthy: 'Server cannot serve students right now'
+};
+
+// Health check endpoint: every dependency from the latest background probes.
+// Answers 503 when the server is not ready to serve students.
 app.get('/api/health', (req, res) => {
-  res.json({ 
-    status: 'healthy',
+  const report = getHealthReport();
+  res.status(report.ready ? 200 : 503).json({ 
+    status: report.status,
     service: 'Captain Focus Backend',
-    message: 'Server is running perfectly!',
+    message: HEALTH_MESSAGES[report.status],
+    ready: report.ready,
+    uptimeSeconds: Math.round(process.uptime()),
+    dependencies: report.dependencies,
+    checkedAt: report.checkedAt,
     timestamp: new Date().toISOString(),
     environment: {
       nodeEnv: process.env.NODE_ENV || 'development',
@@ -86,70 +361,204 @@ app.get('/api/health', (req, res) => {
   });
 });
 
-// Omnidimension API health check
-app.get('/api/agent/health', async (req, res) => {
+// Liveness: the process is up and answering
+app.get('/api/health/live', (req, res) => {
+  res.json({
+    status: 'alive',
+    uptimeSeconds: Math.round(process.uptime()),
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Readiness: storage works and chat can be answered by Omnidimension or the fallback
+app.get('/api/health/ready', (req, res) => {
+  const report = getHealthReport();
+  res.status(report.ready ? 200 : 503).json({
+    ready: report.ready,
+    status: report.status,
+    dependencies: Object.fromEntries(report.dependencies.map(dependency => [dependency.name, dependency.status])),
+    checkedAt: report.checkedAt,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Omnidimension API health check, from the latest background probe
+app.get('/api/agent/health', (req, res) => {
+  const omnidimension = getDependencyHealth('omnidimension');
+  const circuitBreaker = omnidimensionBreaker.snapshot();
+  let message = 'Omnidimension API has not been checked yet';
+  if (circuitBreaker.state === 'open') {
+    message = 'Omnidimension API circuit is open; chat is answered by the local fallback';
+  } else if (omnidimension.status === 'up' || omnidimension.status === 'degraded') {
+    message = 'Omnidimension API is accessible';
+  } else if (omnidimension.status === 'down') {
+    message = 'Omnidimension API is not responding';
+  }
+
+  res.json({
+    status: omnidimension.status === 'up' ? 'healthy' : omnidimension.status === 'degraded' ? 'degraded' : 'unhealthy',
+    service: 'Omnidimension API',
+    message,
+    apiKeyConfigured: !!process.env.OMNIDIMENSION_API_KEY,
+    latencyMs: omnidimension.latencyMs,
+    lastCheckedAt: omnidimension.lastCheckedAt,
+    lastSuccessAt: omnidimension.lastSuccessAt,
+    lastError: omnidimension.lastError,
+    circuitBreaker,
+    timestamp: new Date().toISOString()
+  });
+});
+
+registerGauge('captain_focus_agents', 'Omnidimension agents in the registry', () => agentStore.count());
+registerGauge('captain_focus_sessions', 'Conversation sessions by status', async () =>
+  Object.entries(await countSessionsByStatus()).map(([status, value]) => ({ labels: { status }, value })));
+registerGauge('captain_focus_omnidimension_circuit_open', '1 while the Omnidimension circuit breaker refuses calls', async () =>
+  omnidimensionBreaker.isOpen() ? 1 : 0);
+
+// Prometheus scrape endpoint
+app.get('/metrics', async (req, res) => {
   try {
-    const isHealthy = await checkOmnidimensionHealth();
-    res.json({
-      status: isHealthy ? 'healthy' : 'unhealthy',
-      service: 'Omnidimension API',
-      message: isHealthy ? 'Omnidimension API is accessible' : 'Omnidimension API is not responding',
-      apiKeyConfigured: !!process.env.OMNIDIMENSION_API_KEY,
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.send(await renderMetrics());
+  } catch (error) {
+    console.error('❌ Metrics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to collect metrics',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'METRICS_FAILED'
+    });
+  }
+});
+
+// Create an account and sign in
+app.post('/api/auth/register', rateLimit('auth'), async (req, res) => {
+  try {
+    const { username, password, displayName } = req.body;
+
+    const errors = validateCredentials({ username, password, displayName });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid registration',
+        details: errors,
+        code: 'INVALID_REGISTRATION'
+      });
+    }
+
+    const { user, token, expiresAt, error } = await registerUser(username, password, displayName);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.status(201).json({
+      success: true,
+      user,
+      token,
+      expiresAt,
+      message: `Welcome aboard, ${user?.displayName}! 🎮`,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
     res.status(500).json({
-      status: 'error',
-      service: 'Omnidimension API',
-      message: 'Failed to check API health',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      success: false,
+      error: 'Failed to register',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'REGISTRATION_FAILED'
+    });
+  }
+});
+
+// Exchange a username and password for a signed token
+app.post('/api/auth/login', rateLimit('auth'), async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'username and password are required',
+        code: 'MISSING_CREDENTIALS'
+      });
+    }
+
+    const { user, token, expiresAt, error } = await loginUser(username, password);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    console.log(`🔑 ${user?.username} signed in`);
+    res.json({
+      success: true,
+      user,
+      token,
+      expiresAt,
       timestamp: new Date().toISOString()
     });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sign in',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'LOGIN_FAILED'
+    });
   }
 });
 
+// The signed-in user
+app.get('/api/auth/me', requireAuth, (req, res) => {
+  res.json({
+    success: true,
+    user: req.user,
+    timestamp: new Date().toISOString()
+  });
+});
+
 // Create or get agent
-app.post('/api/agent/create', async (req, res) => {
+app.post('/api/agent/create', requireAuth, rateLimit('agent'), async (req, res) => {
   try {
-    const { userId } = req.body;
-    
-    if (!userId) {
-      return res.status(400).json({
+    const { id: userId } = req.user as AuthUser;
+
+    const { persona, error: personaError } = await findPersona(req.body?.personaId);
+    if (personaError || !persona) {
+      return res.status(personaError?.status ?? 500).json({
         success: false,
-        error: 'userId is required',
-        code: 'MISSING_USER_ID'
+        error: personaError?.error,
+        code: personaError?.code
       });
     }
 
-    // Check if user already has an active agent
-    if (activeAgents.has(userId)) {
-      const existingAgentId = activeAgents.get(userId);
-      console.log(`🔄 Using existing agent ${existingAgentId} for user ${userId}`);
+    // One agent per user and persona, reused unless the persona has changed since it was created
+    const { record, isNew } = await ensureAgent(userId, persona);
+    const { agentId } = record;
+    if (!isNew) {
+      await agentStore.touch(agentId);
+      console.log(`🔄 Using existing agent ${agentId} for user ${userId}`);
       return res.json({
         success: true,
-        agentId: existingAgentId,
-        message: 'Using existing Captain Focus agent',
+        agentId,
+        message: `Using existing ${persona.name} agent`,
         isNewAgent: false,
+        createdAt: record.createdAt,
+        personaId: record.personaId,
+        personaVersion: record.personaVersion,
         timestamp: new Date().toISOString()
       });
     }
 
-    console.log(`🚀 Creating new Captain Focus agent for user: ${userId}`);
-    const agentId = await createOmnidimensionAgent();
-    
-    // Store agent for this user
-    activeAgents.set(userId, agentId);
-    
     console.log(`✅ Agent ${agentId} created successfully for user ${userId}`);
     
     res.json({
       success: true,
       agentId,
-      message: 'Captain Focus agent created successfully! 🎮',
+      message: `${persona.name} agent created successfully! 🎮`,
       isNewAgent: true,
+      createdAt: record.createdAt,
+      personaId: record.personaId,
+      personaVersion: record.personaVersion,
       agent_config: {
-        name: 'Captain Focus',
-        personality: 'Gamified AI Study Companion',
+        name: persona.name,
+        personality: persona.description,
         capabilities: ['Voice Chat', 'Text Chat', 'Emotion Recognition', 'Learning Analytics']
       },
       timestamp: new Date().toISOString()
@@ -168,9 +577,11 @@ app.post('/api/agent/create', async (req, res) => {
 });
 
 // Send message to agent (new endpoint)
-app.post('/api/agent/chat', async (req, res) => {
+app.post('/api/agent/chat', requireAuth, rateLimit('chat'), async (req, res) => {
   try {
-    const { agentId, message, conversationHistory, userId } = req.body;
+    const { message, sessionId, personaId, mode, tzOffset } = req.body;
+    let { agentId } = req.body;
+    const { id: userId } = req.user as AuthUser;
 
     // Validation
     if (!agentId) {
@@ -189,16 +600,59 @@ app.post('/api/agent/chat', async (req, res) => {
       });
     }
 
+    const modeErrors = validateLearningMode(mode);
+    if (modeErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid learning mode',
+        details: modeErrors,
+        code: 'INVALID_LEARNING_MODE'
+      });
+    }
+
+    const agent = await agentStore.findByAgentId(agentId);
+    if (!agent || agent.userId !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Agent belongs to another user',
+        code: 'AGENT_FORBIDDEN'
+      });
+    }
+
+    // Without an explicit persona, the agent's own persona is the one being talked to
+    const { session, persona, error: sessionError } = await resolveChatSession(userId, sessionId, personaId ?? agent.personaId);
+    if (sessionError || !persona) {
+      return res.status(sessionError?.status ?? 500).json({
+        success: false,
+        error: sessionError?.error,
+        code: sessionError?.code
+      });
+    }
+
+    // An outdated agent is swapped for one built from the current persona
+    agentId = (await ensureAgent(userId, persona)).record.agentId;
+
     console.log(`💬 Processing chat for agent: ${agentId}`);
     console.log(`📝 Message preview: "${message.substring(0, 50)}..."`);
     
-    const response = await sendMessageToAgent(agentId, message, conversationHistory || []);
+    const result = await sendMessageToAgent(agentId, message, session?.id, mode ?? undefined);
+    await agentStore.touch(agentId);
+    await recordChatMessage(userId, message, session, mode ?? undefined, tzOffset);
 
     res.json({
       success: true,
-      response,
+      response: result.text,
       agentId,
-      messageLength: response.length,
+      personaId: persona.id,
+      mode: mode ?? null,
+      sessionId: session?.id,
+      messageLength: result.text.length,
+      provider: result.provider,
+      model: result.model,
+      finishReason: result.finishReason,
+      usage: result.usage,
+      cached: !!result.cache,
+      cache: result.cache,
       timestamp: new Date().toISOString()
     });
 
@@ -214,10 +668,149 @@ app.post('/api/agent/chat', async (req, res) => {
   }
 });
 
+// Stream a reply from the agent as Server-Sent Events.
+// Frames: start -> delta* -> done, or error if anything fails mid-way. When Omnidimension
+// is down before any text was sent, the local provider's reply is streamed instead.
+app.post('/api/agent/chat/stream', requireAuth, rateLimit('chat'), async (req, res) => {
+  const { message, sessionId, personaId, mode, tzOffset, agentId: requestedAgentId } = req.body;
+  const { id: userId } = req.user as AuthUser;
+
+  if (!message || typeof message !== 'string' || message.trim().length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Valid message is required',
+      code: 'INVALID_MESSAGE'
+    });
+  }
+
+  const modeErrors = validateLearningMode(mode);
+  if (modeErrors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid learning mode',
+      details: modeErrors,
+      code: 'INVALID_LEARNING_MODE'
+    });
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('🔌 Stream client disconnected, aborting upstream request');
+      controller.abort();
+    }
+  });
+
+  try {
+    const agent = requestedAgentId ? await agentStore.findByAgentId(requestedAgentId) : undefined;
+    if (requestedAgentId && (!agent || agent.userId !== userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Agent belongs to another user',
+        code: 'AGENT_FORBIDDEN'
+      });
+    }
+
+    const { session, persona, error: sessionError } = await resolveChatSession(userId, sessionId, personaId ?? agent?.personaId);
+    if (sessionError || !persona) {
+      return res.status(sessionError?.status ?? 500).json({
+        success: false,
+        error: sessionError?.error,
+        code: sessionError?.code
+      });
+    }
+    // Stream from the agent unless Omnidimension is known to be down or no agent can be set up
+    let agentId: string | undefined;
+    if (omnidimensionBreaker.isOpen()) {
+      console.warn('🔌 Omnidimension circuit is open, streaming the local fallback');
+    } else {
+      try {
+        agentId = (await ensureAgent(userId, persona)).record.agentId;
+      } catch (agentError) {
+        console.warn('🔄 Agent unavailable, falling back to the local provider:', agentError);
+      }
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    writeSseEvent(res, 'start', {
+      agentId,
+      personaId: persona.id,
+      mode: mode ?? null,
+      sessionId: session?.id,
+      timestamp: new Date().toISOString()
+    });
+
+    let result: AgentReply | undefined;
+    if (agentId) {
+      let streamed = false;
+      try {
+        result = await streamMessageToAgent(agentId, message, session?.id, {
+          signal: controller.signal,
+          onDelta: text => {
+            streamed = true;
+            writeSseEvent(res, 'delta', { text });
+          }
+        }, mode ?? undefined);
+        await agentStore.touch(agentId);
+      } catch (agentError) {
+        // Text already sent cannot be taken back, so only a stream that never started falls back
+        if (streamed || controller.signal.aborted) throw agentError;
+        console.warn('🔄 Agent stream failed, falling back to the local provider:', agentError);
+      }
+    }
+
+    // The fallback reply arrives as a single delta; the turn is still stored in the session
+    const fallback = !result;
+    if (!result) {
+      result = await replyLocally(message, persona, session?.id, mode ?? undefined);
+      writeSseEvent(res, 'delta', { text: result.text });
+    }
+    await recordChatMessage(userId, message, session, mode ?? undefined, tzOffset);
+
+    writeSseEvent(res, 'done', {
+      response: result.text,
+      agentId,
+      sessionId: session?.id,
+      messageLength: result.text.length,
+      provider: result.provider,
+      finishReason: result.finishReason,
+      usage: result.usage,
+      cached: !!result.cache,
+      cache: result.cache,
+      timestamp: new Date().toISOString(),
+      status: fallback ? 'fallback' : 'success'
+    });
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('❌ Agent stream error:', error);
+
+    const failure = {
+      success: false,
+      error: 'Failed to stream message from agent',
+      message: error instanceof Error ? error.message : 'Chat processing failed',
+      code: 'AGENT_STREAM_FAILED',
+      timestamp: new Date().toISOString()
+    };
+
+    if (!res.headersSent) {
+      return res.status(500).json(failure);
+    }
+    writeSseEvent(res, 'error', failure);
+    res.end();
+  }
+});
+
 // Simple chat endpoint (fallback/legacy)
-app.post('/api/chat', async (req, res) => {
+app.post('/api/chat', requireAuth, rateLimit('chat'), async (req, res) => {
   try {
-    const { message, userId } = req.body;
+    const { message, sessionId, personaId, mode, tzOffset } = req.body;
+    const { id: userId } = req.user as AuthUser;
 
     // Validation
     if (!message || typeof message !== 'string' || message.trim().length === 0) {
@@ -227,39 +820,64 @@ app.post('/api/chat', async (req, res) => {
       });
     }
 
-    // Try to use existing agent or create one
-    if (userId) {
+    const modeErrors = validateLearningMode(mode);
+    if (modeErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid learning mode',
+        details: modeErrors,
+        code: 'INVALID_LEARNING_MODE'
+      });
+    }
+
+    const { session, persona, error: sessionError } = await resolveChatSession(userId, sessionId, personaId);
+    if (sessionError || !persona) {
+      return res.status(sessionError?.status ?? 500).json({
+        error: sessionError?.error,
+        code: sessionError?.code
+      });
+    }
+
+    // Try to use existing agent or create one, unless Omnidimension is known to be down
+    if (omnidimensionBreaker.isOpen()) {
+      console.warn('🔌 Omnidimension circuit is open, answering with the local fallback');
+    } else {
       try {
-        let agentId = activeAgents.get(userId);
-        
-        if (!agentId) {
-          console.log(`🤖 Creating agent for user ${userId} via legacy endpoint`);
-          agentId = await createOmnidimensionAgent();
-          activeAgents.set(userId, agentId);
-        }
-
-        const response = await sendMessageToAgent(agentId, message);
-        
-        return res.json({ 
-          response,
-          message: 'Response from Captain Focus agent',
+        const { agentId } = (await ensureAgent(userId, persona)).record;
+
+        const result = await sendMessageToAgent(agentId, message, session?.id, mode ?? undefined);
+        await agentStore.touch(agentId);
+        await recordChatMessage(userId, message, session, mode ?? undefined, tzOffset);
+
+        return res.json({
+          response: result.text,
+          message: `Response from ${persona.name} agent`,
           agentId,
+          personaId: persona.id,
+          mode: mode ?? null,
+          sessionId: session?.id,
+          provider: result.provider,
+          cached: !!result.cache,
           timestamp: new Date().toISOString(),
           status: 'success'
         });
       } catch (agentError) {
-        console.warn('🔄 Agent failed, falling back to mock response:', agentError);
+        console.warn('🔄 Agent failed, falling back to the local provider:', agentError);
       }
     }
 
-    // Fallback to mock response
-    const mockResponse = `🎮 Hey there, brave scholar! I received your message: "${message}". I'm Captain Focus, ready to help you on your learning quest! Once the Omnidimension API is fully integrated, I'll provide amazing personalized responses. For now, I'm responding from the backend mock! ⚔️✨`;
+    // Fallback to the offline provider; the turn is still stored in the session
+    const fallback = await replyLocally(message, persona, session?.id, mode ?? undefined);
+    await recordChatMessage(userId, message, session, mode ?? undefined, tzOffset);
 
     res.json({ 
-      response: mockResponse,
-      message: 'Mock response - Omnidimension agent integration needed',
+      response: fallback.text,
+      message: 'Fallback response - Omnidimension is unavailable',
+      personaId: persona.id,
+      mode: mode ?? null,
+      sessionId: session?.id,
+      provider: fallback.provider,
       timestamp: new Date().toISOString(),
-      status: 'mock'
+      status: 'fallback'
     });
 
   } catch (error) {
@@ -275,17 +893,23 @@ app.post('/api/chat', async (req, res) => {
 });
 
 // Get agent status
-app.get('/api/agent/status/:agentId', async (req, res) => {
+app.get('/api/agent/status/:agentId', requireAuth, async (req, res) => {
   try {
     const { agentId } = req.params;
-    
-    // Check if agent exists in our active agents
-    const isActive = Array.from(activeAgents.values()).includes(agentId);
-    
+    const user = req.user as AuthUser;
+
+    // Check if agent exists in the agent store; other users' agents look unknown
+    const found = await agentStore.findByAgentId(agentId);
+    const record = found && (found.userId === user.id || user.role === 'admin') ? found : undefined;
+
     res.json({
       agentId,
-      status: isActive ? 'active' : 'unknown',
-      message: isActive ? 'Agent is active and ready' : 'Agent not found in active list',
+      status: record ? 'active' : 'unknown',
+      message: record ? 'Agent is active and ready' : 'Agent not found in agent store',
+      userId: record?.userId,
+      personaVersion: record?.personaVersion,
+      createdAt: record?.createdAt,
+      lastUsedAt: record?.lastUsedAt,
       lastChecked: new Date().toISOString()
     });
   } catch (error) {
@@ -297,88 +921,1158 @@ app.get('/api/agent/status/:agentId', async (req, res) => {
   }
 });
 
-// List active agents (for debugging)
-app.get('/api/agent/list', (req, res) => {
-  const agents = Array.from(activeAgents.entries()).map(([userId, agentId]) => ({
-    userId,
-    agentId,
-    created: new Date().toISOString() // In production, store actual creation time
-  }));
+// List active agents: admins see every user's agent, everyone else only their own
+app.get('/api/agent/list', requireAuth, async (req, res) => {
+  try {
+    const user = req.user as AuthUser;
+    const records = (await agentStore.list())
+      .filter(record => user.role === 'admin' || record.userId === user.id);
+    const agents = records.map(record => ({
+      userId: record.userId,
+      agentId: record.agentId,
+      personaId: record.personaId,
+      personaVersion: record.personaVersion,
+      created: record.createdAt,
+      lastUsed: record.lastUsedAt
+    }));
 
-  res.json({
-    totalAgents: agents.length,
-    agents,
-    timestamp: new Date().toISOString()
-  });
+    res.json({
+      totalAgents: agents.length,
+      agents,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list agents',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
 });
 
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({
-    error: 'Endpoint not found',
-    code: 'NOT_FOUND',
-    path: req.originalUrl,
-    availableEndpoints: [
-      'GET /',
-      'GET /api/health',
-      'GET /api/agent/health',
-      'POST /api/agent/create',
-      'POST /api/agent/chat',
-      'POST /api/chat',
-      'GET /api/agent/status/:agentId',
-      'GET /api/agent/list'
-    ],
-    timestamp: new Date().toISOString()
-  });
-});
+// List personas (latest version of each)
+app.get('/api/personas', requireAuth, async (req, res) => {
+  try {
+    const personas = await listPersonas();
 
-// Error handling middleware
-app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('🚨 Unhandled error:', error);
-  res.status(500).json({
-    error: 'Internal server error',
-    code: 'INTERNAL_ERROR',
-    message: process.env.NODE_ENV === 'development' ? error.message : 'Something went wrong',
-    timestamp: new Date().toISOString()
-  });
+    res.json({
+      success: true,
+      personas: personas.map(toPersonaView),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list personas',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERSONA_LIST_FAILED'
+    });
+  }
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('🛑 SIGTERM received, shutting down gracefully...');
-  console.log(`📊 Final stats: ${activeAgents.size} active agents`);
-  process.exit(0);
-});
+// Fetch a persona: the latest version, or ?version=N
+app.get('/api/personas/:personaId', requireAuth, async (req, res) => {
+  try {
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && !(Number.isInteger(version) && version >= 1)) {
+      return res.status(400).json({
+        success: false,
+        error: 'version must be a positive integer',
+        code: 'INVALID_PERSONA_VERSION'
+      });
+    }
 
-process.on('SIGINT', () => {
-  console.log('🛑 SIGINT received, shutting down gracefully...');
-  console.log(`📊 Final stats: ${activeAgents.size} active agents`);
-  process.exit(0);
-});
+    const persona = await getPersona(req.params.personaId, version);
+    if (!persona) {
+      return res.status(404).json({ success: false, error: 'Persona not found', code: 'PERSONA_NOT_FOUND' });
+    }
 
-// Start server
-const server = app.listen(PORT, () => {
-  console.log('🚀 Captain Focus Backend Server Started');
-  console.log(`📍 Port: ${PORT}`);
-  console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔑 Omnidimension API Key: ${process.env.OMNIDIMENSION_API_KEY ? '✅ Configured' : '❌ Missing'}`);
-  console.log(`⏰ Started at: ${new Date().toISOString()}`);
-  console.log('✅ Server is ready for deployment!');
-  console.log('🎮 Captain Focus agents ready to be created!');
-  
-  if (!process.env.OMNIDIMENSION_API_KEY) {
-    console.warn('⚠️  WARNING: OMNIDIMENSION_API_KEY not found - some features will use mock responses');
+    res.json({
+      success: true,
+      persona: toPersonaView(persona),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch persona',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERSONA_FETCH_FAILED'
+    });
   }
 });
 
-// Handle server errors
-server.on('error', (error: NodeJS.ErrnoException) => {
-  if (error.code === 'EADDRINUSE') {
-    console.error(`❌ Port ${PORT} is already in use`);
-  } else {
-    console.error('❌ Server error:', error);
-  }
-  process.exit(1);
+// Version history of a persona, oldest first
+app.get('/api/personas/:personaId/versions', requireAuth, async (req, res) => {
+  try {
+    const versions = await getPersonaVersions(req.params.personaId);
+    if (!versions) {
+      return res.status(404).json({ success: false, error: 'Persona not found', code: 'PERSONA_NOT_FOUND' });
+    }
+
+    res.json({
+      success: true,
+      versions: versions.map(({ version, name, createdAt, createdBy }) => ({ version, name, createdAt, createdBy })),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch persona versions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERSONA_FETCH_FAILED'
+    });
+  }
+});
+
+// Create a persona (admins only)
+app.post('/api/personas', requireAdmin, async (req, res) => {
+  try {
+    const { id, ...input } = req.body ?? {};
+
+    const errors = [...validatePersonaId(id), ...validatePersonaInput(input)];
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid persona',
+        details: errors,
+        code: 'INVALID_PERSONA'
+      });
+    }
+
+    const { persona, error } = await createPersona(id, input, (req.user as AuthUser).username);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.status(201).json({
+      success: true,
+      persona: toPersonaView(persona as Persona),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create persona',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERSONA_CREATE_FAILED'
+    });
+  }
+});
+
+// Save a new version of a persona (admins only); agents built from older versions are re-created on next use
+app.put('/api/personas/:personaId', requireAdmin, async (req, res) => {
+  try {
+    const input = req.body;
+
+    const errors = validatePersonaInput(input);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid persona',
+        details: errors,
+        code: 'INVALID_PERSONA'
+      });
+    }
+
+    const { persona, error } = await updatePersona(req.params.personaId, input, (req.user as AuthUser).username);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      persona: toPersonaView(persona as Persona),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update persona',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERSONA_UPDATE_FAILED'
+    });
+  }
+});
+
+// Delete a persona and its history (admins only); the default persona is protected
+app.delete('/api/personas/:personaId', requireAdmin, async (req, res) => {
+  try {
+    const { error } = await deletePersona(req.params.personaId);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      message: 'Persona deleted',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete persona',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERSONA_DELETE_FAILED'
+    });
+  }
+});
+
+// The learning modes a chat message can ask for
+app.get('/api/learning-modes', (req, res) => {
+  res.json({
+    success: true,
+    modes: Object.values(LEARNING_MODES).map(({ id, label, emoji, description, maxTokens }) => ({
+      id,
+      label,
+      emoji,
+      description,
+      maxTokens
+    })),
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Create a conversation session, optionally with a chosen tutor persona
+app.post('/api/sessions', requireAuth, async (req, res) => {
+  try {
+    const { title, subject, personaId } = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    const { persona, error } = await findPersona(personaId);
+    if (error || !persona) {
+      return res.status(error?.status ?? 500).json({ success: false, error: error?.error, code: error?.code });
+    }
+
+    const session = await createSession(userId, { title, subject, personaId: persona.id });
+
+    res.status(201).json({
+      success: true,
+      session,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_CREATE_FAILED'
+    });
+  }
+});
+
+// List a user's conversation sessions (most recent first)
+app.get('/api/sessions', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const sessions = await listSessions(userId);
+
+    res.json({
+      success: true,
+      totalSessions: sessions.length,
+      sessions: sessions.map(summarizeSession),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list sessions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_LIST_FAILED'
+    });
+  }
+});
+
+// Fetch a session with its full message history
+app.get('/api/sessions/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const { session, error } = await findOwnedSession(req.params.sessionId, userId);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      session,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_FETCH_FAILED'
+    });
+  }
+});
+
+// Rename a session or change its subject
+app.patch('/api/sessions/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const { title, subject } = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    if (!title && !subject) {
+      return res.status(400).json({
+        success: false,
+        error: 'title or subject is required',
+        code: 'INVALID_SESSION_UPDATE'
+      });
+    }
+
+    const { error } = await findOwnedSession(req.params.sessionId, userId);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    const session = await updateSession(req.params.sessionId, { title, subject });
+
+    res.json({
+      success: true,
+      session: session && summarizeSession(session),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_UPDATE_FAILED'
+    });
+  }
+});
+
+// Resume a session: it becomes the user's active conversation
+app.post('/api/sessions/:sessionId/resume', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const { error } = await findOwnedSession(req.params.sessionId, userId);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    const session = await resumeSession(req.params.sessionId);
+    console.log(`▶️ Session ${req.params.sessionId} resumed`);
+
+    res.json({
+      success: true,
+      session,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resume session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_RESUME_FAILED'
+    });
+  }
+});
+
+// Mark a session as finished; awards completion XP the first time
+app.post('/api/sessions/:sessionId/complete', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const { error } = await findOwnedSession(req.params.sessionId, userId);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    const completion = await completeSession(req.params.sessionId);
+    // An empty session can be closed, but only real study earns XP, quests and achievements
+    const rewarded = !!completion && !completion.alreadyCompleted && hasExchange(completion.session);
+    if (completion && !completion.alreadyCompleted && !rewarded) {
+      console.log(`🏁 Session ${req.params.sessionId} completed without any exchange, no rewards`);
+    }
+    if (completion && rewarded) {
+      console.log(`🏁 Session ${req.params.sessionId} completed`);
+      await emitUserEvent(completion.session.userId, 'session_completed', {
+        sessionId: completion.session.id,
+        subject: completion.session.subject,
+        messageCount: completion.session.messages.length
+      });
+    }
+
+    res.json({
+      success: true,
+      session: completion && summarizeSession(completion.session),
+      alreadyCompleted: completion?.alreadyCompleted ?? false,
+      rewarded,
+      progress: completion && await getProgress(completion.session.userId),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to complete session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_COMPLETE_FAILED'
+    });
+  }
+});
+
+// Delete a session and its history
+app.delete('/api/sessions/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const { error } = await findOwnedSession(req.params.sessionId, userId);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    await deleteSession(req.params.sessionId);
+    console.log(`🗑️ Session ${req.params.sessionId} deleted`);
+
+    res.json({
+      success: true,
+      sessionId: req.params.sessionId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SESSION_DELETE_FAILED'
+    });
+  }
+});
+
+// XP, level and recent rewards for a user
+app.get('/api/progress/:userId', requireSelf, async (req, res) => {
+  try {
+    const progress = await getProgress(req.params.userId);
+
+    res.json({
+      success: true,
+      progress,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load progress',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PROGRESS_FETCH_FAILED'
+    });
+  }
+});
+
+// Locked and unlocked achievements with progress toward each
+app.get('/api/achievements/:userId', requireSelf, async (req, res) => {
+  try {
+    const achievements = await getAchievements(req.params.userId);
+
+    res.json({
+      success: true,
+      unlockedCount: achievements.filter(achievement => achievement.unlocked).length,
+      totalCount: achievements.length,
+      achievements,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load achievements',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACHIEVEMENTS_FETCH_FAILED'
+    });
+  }
+});
+
+const QUEST_STATES: QuestState[] = ['available', 'active', 'completed', 'expired'];
+
+// List a user's quests, optionally filtered by state
+app.get('/api/quests/:userId', requireSelf, async (req, res) => {
+  try {
+    const state = req.query.state;
+
+    if (state !== undefined && !QUEST_STATES.includes(state as QuestState)) {
+      return res.status(400).json({
+        success: false,
+        error: `state must be one of: ${QUEST_STATES.join(', ')}`,
+        code: 'INVALID_QUEST_STATE'
+      });
+    }
+
+    const quests = await listQuests(req.params.userId, state as QuestState | undefined);
+
+    res.json({
+      success: true,
+      totalQuests: quests.length,
+      quests,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list quests',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUEST_LIST_FAILED'
+    });
+  }
+});
+
+// Create a custom quest
+app.post('/api/quests', requireAuth, async (req, res) => {
+  try {
+    const input = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    const errors = validateQuestInput(input);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid quest',
+        details: errors,
+        code: 'INVALID_QUEST'
+      });
+    }
+
+    const quest = await createCustomQuest(userId, input);
+
+    res.status(201).json({
+      success: true,
+      quest,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create quest',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUEST_CREATE_FAILED'
+    });
+  }
+});
+
+// Fetch a single quest
+app.get('/api/quests/detail/:questId', requireAuth, async (req, res) => {
+  try {
+    const quest = await getQuest(req.params.questId);
+
+    if (!quest) {
+      return res.status(404).json({ success: false, error: 'Quest not found', code: 'QUEST_NOT_FOUND' });
+    }
+    if (quest.userId !== (req.user as AuthUser).id) {
+      return res.status(403).json({ success: false, error: 'Quest belongs to another user', code: 'QUEST_FORBIDDEN' });
+    }
+
+    res.json({
+      success: true,
+      quest,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch quest',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUEST_FETCH_FAILED'
+    });
+  }
+});
+
+// Accept an available quest: available -> active
+app.post('/api/quests/:questId/accept', requireAuth, async (req, res) => {
+  try {
+    const { quest, error } = await acceptQuest(req.params.questId, (req.user as AuthUser).id);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      quest,
+      message: `Quest accepted: ${quest?.title} ⚔️`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to accept quest',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUEST_ACCEPT_FAILED'
+    });
+  }
+});
+
+// Start a focus session (work phase, then a break)
+app.post('/api/focus-sessions', requireAuth, async (req, res) => {
+  try {
+    const { workMinutes, breakMinutes, chatSessionId } = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    const errors = validateFocusInput({ workMinutes, breakMinutes, chatSessionId });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid focus session',
+        details: errors,
+        code: 'INVALID_FOCUS_SESSION'
+      });
+    }
+
+    const { focusSession, error } = await startFocusSession(userId, { workMinutes, breakMinutes, chatSessionId });
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.status(201).json({
+      success: true,
+      focusSession,
+      message: 'Focus session started - time to lock in! 🍅',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start focus session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FOCUS_SESSION_START_FAILED'
+    });
+  }
+});
+
+// The user's current focus session (if any) and their focus history
+app.get('/api/focus-sessions', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+
+    const focusSessions = await listFocusSessions(userId);
+    const current = focusSessions.find(session => session.status === 'running' || session.status === 'paused');
+
+    res.json({
+      success: true,
+      current: current ?? null,
+      totalSessions: focusSessions.length,
+      totalFocusedMinutes: focusSessions.reduce((sum, session) => sum + session.focusedMinutes, 0),
+      history: focusSessions,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list focus sessions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FOCUS_SESSION_LIST_FAILED'
+    });
+  }
+});
+
+const FOCUS_ACTIONS: Record<string, (focusSessionId: string, userId?: string) => Promise<FocusResult>> = {
+  pause: pauseFocusSession,
+  resume: resumeFocusSession,
+  stop: stopFocusSession
+};
+
+// Pause, resume or stop a focus session
+app.post('/api/focus-sessions/:focusSessionId/:action(pause|resume|stop)', requireAuth, async (req, res) => {
+  try {
+    const { focusSession, error } = await FOCUS_ACTIONS[req.params.action](req.params.focusSessionId, (req.user as AuthUser).id);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      focusSession,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: `Failed to ${req.params.action} focus session`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FOCUS_SESSION_UPDATE_FAILED'
+    });
+  }
+});
+
+// Turn a session's questions and answers into flashcards
+app.post('/api/sessions/:sessionId/flashcards', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const { session, error } = await findOwnedSession(req.params.sessionId, userId);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    const cards = await createFlashcardsFromSession(req.params.sessionId);
+
+    res.status(201).json({
+      success: true,
+      createdCount: cards.length,
+      cards,
+      ...(session && await getDueSummary(session.userId)),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create flashcards',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FLASHCARD_CREATE_FAILED'
+    });
+  }
+});
+
+// A user's flashcards, soonest due first (only due ones with ?due=true)
+app.get('/api/flashcards/:userId', requireSelf, async (req, res) => {
+  try {
+    const cards = await listFlashcards(req.params.userId, { dueOnly: req.query.due === 'true' });
+
+    res.json({
+      success: true,
+      totalCards: cards.length,
+      cards,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list flashcards',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FLASHCARD_LIST_FAILED'
+    });
+  }
+});
+
+// How many cards are ready for review, for "3 cards ready" nudges
+app.get('/api/flashcards/:userId/due', requireSelf, async (req, res) => {
+  try {
+    const summary = await getDueSummary(req.params.userId);
+
+    res.json({
+      success: true,
+      ...summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to count due flashcards',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FLASHCARD_DUE_FAILED'
+    });
+  }
+});
+
+// Grade recall of a card (0-5) and schedule its next review
+app.post('/api/flashcards/:cardId/review', requireAuth, async (req, res) => {
+  try {
+    const { grade } = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+      return res.status(400).json({
+        success: false,
+        error: 'grade must be a whole number from 0 to 5',
+        code: 'INVALID_GRADE'
+      });
+    }
+
+    const { card, error } = await reviewFlashcard(req.params.cardId, grade, userId);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      card,
+      ...(card && await getDueSummary(card.userId)),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to review flashcard',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FLASHCARD_REVIEW_FAILED'
+    });
+  }
+});
+
+// Remove a flashcard
+app.delete('/api/flashcards/:cardId', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const { error } = await deleteFlashcard(req.params.cardId, userId);
+
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      cardId: req.params.cardId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete flashcard',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FLASHCARD_DELETE_FAILED'
+    });
+  }
+});
+
+// Start a Boss Battle: generate questions on a topic at a chosen difficulty
+app.post('/api/quizzes', requireAuth, rateLimit('quiz'), async (req, res) => {
+  try {
+    const { topic, difficulty, count } = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    const errors = validateQuizInput({ topic, difficulty, count });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid quiz request',
+        details: errors,
+        code: 'INVALID_QUIZ'
+      });
+    }
+
+    const quiz = await createQuiz(userId, { topic, difficulty: difficulty as QuizDifficulty | undefined, count });
+
+    res.status(201).json({
+      success: true,
+      quiz: toQuizView(quiz),
+      message: `Boss Battle: ${quiz.topic}! ⚔️`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create quiz',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUIZ_CREATE_FAILED'
+    });
+  }
+});
+
+// A user's past and ongoing Boss Battles
+app.get('/api/quizzes', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+
+    const quizzes = await listQuizzes(userId);
+
+    res.json({
+      success: true,
+      totalQuizzes: quizzes.length,
+      quizzes: quizzes.map(quiz => {
+        const { questions, ...summary } = toQuizView(quiz);
+        return summary;
+      }),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list quizzes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUIZ_LIST_FAILED'
+    });
+  }
+});
+
+// Fetch a quiz (answers stay hidden until each question is answered)
+app.get('/api/quizzes/:quizId', requireAuth, async (req, res) => {
+  try {
+    const { id: userId } = req.user as AuthUser;
+    const quiz = await getQuiz(req.params.quizId);
+
+    if (!quiz) {
+      return res.status(404).json({ success: false, error: 'Quiz not found', code: 'QUIZ_NOT_FOUND' });
+    }
+    if (quiz.userId !== userId) {
+      return res.status(403).json({ success: false, error: 'Quiz belongs to another user', code: 'QUIZ_FORBIDDEN' });
+    }
+
+    res.json({
+      success: true,
+      quiz: toQuizView(quiz),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch quiz',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUIZ_FETCH_FAILED'
+    });
+  }
+});
+
+// Submit one or more answers and get per-question feedback
+app.post('/api/quizzes/:quizId/answers', requireAuth, async (req, res) => {
+  try {
+    const { answers } = req.body;
+    const { id: userId } = req.user as AuthUser;
+
+    if (!Array.isArray(answers) || answers.length === 0 || answers.some(entry => typeof entry?.questionId !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'answers must be a non-empty array of { questionId, answer }',
+        code: 'INVALID_ANSWERS'
+      });
+    }
+
+    const { quiz, results, error } = await answerQuiz(req.params.quizId, answers, userId);
+    if (error) {
+      return res.status(error.status).json({ success: false, error: error.error, code: error.code });
+    }
+
+    res.json({
+      success: true,
+      results,
+      quiz: quiz && toQuizView(quiz),
+      progress: quiz && await getProgress(quiz.userId),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to grade answers',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'QUIZ_ANSWER_FAILED'
+    });
+  }
+});
+
+// Mood over time, study time per subject, learning mode mix and difficulty trends
+app.get('/api/analytics/:userId', requireSelf, async (req, res) => {
+  try {
+    const days = req.query.days === undefined ? DEFAULT_ANALYTICS_DAYS : Number(req.query.days);
+    const tzOffsetMinutes = req.query.tzOffset === undefined ? 0 : Number(req.query.tzOffset);
+
+    const errors: string[] = [];
+    if (!Number.isInteger(days) || days < 1 || days > MAX_ANALYTICS_DAYS) {
+      errors.push(`days must be a whole number from 1 to ${MAX_ANALYTICS_DAYS}`);
+    }
+    if (!isTzOffset(tzOffsetMinutes)) {
+      errors.push(`tzOffset must be a whole number of minutes between -${MAX_TZ_OFFSET_MINUTES} and ${MAX_TZ_OFFSET_MINUTES}`);
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid analytics query',
+        details: errors,
+        code: 'INVALID_ANALYTICS_QUERY'
+      });
+    }
+
+    const analytics = await getAnalytics(req.params.userId, { days, tzOffsetMinutes });
+
+    res.json({
+      success: true,
+      analytics,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load analytics',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ANALYTICS_FETCH_FAILED'
+    });
+  }
+});
+
+// Estimated skill level per subject, most recently practised first
+app.get('/api/skills/:userId', requireSelf, async (req, res) => {
+  try {
+    const skills = await getSkillLevels(req.params.userId);
+
+    res.json({
+      success: true,
+      skills,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load skill levels',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'SKILLS_FETCH_FAILED'
+    });
+  }
+});
+
+// Post-call results from Omnidimension: transcript plus extracted variables
+app.post('/api/webhooks/omnidimension', async (req, res) => {
+  try {
+    const authError = verifyWebhookRequest((req as RawBodyRequest).rawBody, {
+      signature: req.get(SIGNATURE_HEADER),
+      secret: req.get(SECRET_HEADER)
+    });
+    if (authError) {
+      console.warn(`🚫 Rejected Omnidimension webhook: ${authError.code}`);
+      return res.status(authError.status).json({ success: false, error: authError.error, code: authError.code });
+    }
+
+    const { payload, errors } = parsePostCallPayload(req.body);
+    if (!payload) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid webhook payload',
+        details: errors,
+        code: 'INVALID_WEBHOOK_PAYLOAD'
+      });
+    }
+
+    const { session, duplicate, rewarded, error } = await handlePostCall(payload);
+    if (error || !session) {
+      return res.status(error?.status ?? 500).json({ success: false, error: error?.error, code: error?.code });
+    }
+
+    console.log(`📞 Voice call ${payload.callId} ${duplicate ? 'already stored' : 'stored'} as session ${session.id}`);
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      sessionId: session.id,
+      duplicate: !!duplicate,
+      rewarded: !!rewarded,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process webhook',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'WEBHOOK_PROCESSING_FAILED'
+    });
+  }
+});
+
+// 404 handler
+app.use('*', (req, res) => {
+  res.status(404).json({
+    error: 'Endpoint not found',
+    code: 'NOT_FOUND',
+    path: req.originalUrl,
+    availableEndpoints: [
+      'GET /',
+      'GET /api/health',
+      'GET /api/health/live',
+      'GET /api/health/ready',
+      'GET /metrics',
+      'POST /api/auth/register',
+      'POST /api/auth/login',
+      'GET /api/auth/me',
+      'GET /api/agent/health',
+      'POST /api/agent/create',
+      'POST /api/agent/chat',
+      'POST /api/agent/chat/stream',
+      'POST /api/chat',
+      'GET /api/agent/status/:agentId',
+      'GET /api/agent/list',
+      'GET /api/personas',
+      'GET /api/personas/:personaId',
+      'GET /api/personas/:personaId/versions',
+      'POST /api/personas',
+      'PUT /api/personas/:personaId',
+      'DELETE /api/personas/:personaId',
+      'GET /api/learning-modes',
+      'POST /api/sessions',
+      'GET /api/sessions',
+      'GET /api/sessions/:sessionId',
+      'PATCH /api/sessions/:sessionId',
+      'POST /api/sessions/:sessionId/resume',
+      'POST /api/sessions/:sessionId/complete',
+      'DELETE /api/sessions/:sessionId',
+      'GET /api/progress/:userId',
+      'GET /api/achievements/:userId',
+      'GET /api/quests/:userId',
+      'POST /api/quests',
+      'GET /api/quests/detail/:questId',
+      'POST /api/quests/:questId/accept',
+      'POST /api/focus-sessions',
+      'GET /api/focus-sessions',
+      'POST /api/focus-sessions/:focusSessionId/pause',
+      'POST /api/focus-sessions/:focusSessionId/resume',
+      'POST /api/focus-sessions/:focusSessionId/stop',
+      'POST /api/sessions/:sessionId/flashcards',
+      'GET /api/flashcards/:userId',
+      'GET /api/flashcards/:userId/due',
+      'POST /api/flashcards/:cardId/review',
+      'DELETE /api/flashcards/:cardId',
+      'POST /api/quizzes',
+      'GET /api/quizzes',
+      'GET /api/quizzes/:quizId',
+      'POST /api/quizzes/:quizId/answers',
+      'GET /api/analytics/:userId',
+      'GET /api/skills/:userId',
+      'POST /api/webhooks/omnidimension'
+    ],
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Error handling middleware
+app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error('🚨 Unhandled error:', error);
+  res.status(500).json({
+    error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+    message: process.env.NODE_ENV === 'development' ? error.message : 'Something went wrong',
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Graceful shutdown
+process.on('SIGTERM', () => {
+  console.log('🛑 SIGTERM received, shutting down gracefully...');
+  agentStore.count()
+    .then(count => console.log(`📊 Final stats: ${count} registered agents`))
+    .finally(() => process.exit(0));
+});
+
+process.on('SIGINT', () => {
+  console.log('🛑 SIGINT received, shutting down gracefully...');
+  agentStore.count()
+    .then(count => console.log(`📊 Final stats: ${count} registered agents`))
+    .finally(() => process.exit(0));
+});
+
+// Start server once the admin account exists and every dependency has been probed,
+// so health checks give real answers from the first request
+Promise.all([
+  bootstrapAdmin().catch(error => console.error('❌ Admin account bootstrap failed:', error)),
+  startHealthMonitor()
+]).then(() => {
+  const server = app.listen(PORT, () => {
+    console.log('🚀 Captain Focus Backend Server Started');
+    console.log(`📍 Port: ${PORT}`);
+    console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🔑 Omnidimension API Key: ${process.env.OMNIDIMENSION_API_KEY ? '✅ Configured' : '❌ Missing'}`);
+    console.log(`⏰ Started at: ${new Date().toISOString()}`);
+    console.log('✅ Server is ready for deployment!');
+    console.log('🎮 Captain Focus agents ready to be created!');
+
+    if (!process.env.OMNIDIMENSION_API_KEY) {
+      console.warn('⚠️  WARNING: OMNIDIMENSION_API_KEY not found - chat will use local fallback replies');
+    }
+  });
+
+  // Handle server errors
+  server.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EADDRINUSE') {
+      console.error(`❌ Port ${PORT} is already in use`);
+    } else {
+      console.error('❌ Server error:', error);
+    }
+    process.exit(1);
+  });
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,296 @@
+import { randomUUID } from 'crypto';
+import { createCollection } from './storage';
+import { Mood, classifyEmotion } from '../shared/emotion';
+import { LearningMode } from './learningModes';
+
+export interface SessionMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  // Detected emotion of student messages
+  mood?: Mood;
+  // Learning mode the turn was asked and answered in
+  mode?: LearningMode;
+}
+
+export type SessionChannel = 'chat' | 'voice';
+
+// What Omnidimension reported about a finished voice call
+export interface VoiceCallDetails {
+  callId: string;
+  agentId: string;
+  durationSeconds?: number;
+  summary?: string;
+  extractedVariables: Record<string, string>;
+}
+
+// Older turns folded into a running summary so the history sent to the model stays in budget
+export interface HistorySummary {
+  text: string;
+  // The summary covers messages[0 .. coveredMessages - 1]
+  coveredMessages: number;
+  tokens: number;
+  updatedAt: string;
+}
+
+export interface ConversationSession {
+  id: string;
+  userId: string;
+  title: string;
+  subject: string;
+  status: 'active' | 'paused' | 'completed';
+  // Sessions without a channel predate voice sessions and are chats
+  channel?: SessionChannel;
+  // The tutor persona the student is talking to; missing means the default persona
+  personaId?: string;
+  messages: SessionMessage[];
+  historySummary?: HistorySummary;
+  voiceCall?: VoiceCallDetails;
+  createdAt: string;
+  updatedAt: string;
+  lastResumedAt?: string;
+  completedAt?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  subject: string;
+  status: ConversationSession['status'];
+  channel: SessionChannel;
+  personaId?: string;
+  messageCount: number;
+  lastMessagePreview?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DEFAULT_TITLE = 'New Learning Quest';
+const DEFAULT_SUBJECT = 'General';
+
+const sessions = createCollection<ConversationSession>('sessions');
+
+export function summarizeSession(session: ConversationSession): SessionSummary {
+  const lastMessage = session.messages[session.messages.length - 1];
+  return {
+    id: session.id,
+    title: session.title,
+    subject: session.subject,
+    status: session.status,
+    channel: session.channel ?? 'chat',
+    personaId: session.personaId,
+    messageCount: session.messages.length,
+    lastMessagePreview: lastMessage?.content.substring(0, 80),
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  };
+}
+
+export async function createSession(
+  userId: string,
+  options: { title?: string; subject?: string; personaId?: string } = {}
+): Promise<ConversationSession> {
+  const now = new Date().toISOString();
+  const session: ConversationSession = {
+    id: randomUUID(),
+    userId,
+    title: options.title?.trim() || DEFAULT_TITLE,
+    subject: options.subject?.trim() || DEFAULT_SUBJECT,
+    status: 'active',
+    personaId: options.personaId,
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await sessions.set(session.id, session);
+  console.log(`📒 Session ${session.id} created for user ${userId}`);
+  return session;
+}
+
+export async function getSession(sessionId: string): Promise<ConversationSession | undefined> {
+  return sessions.get(sessionId);
+}
+
+export async function listSessions(userId: string): Promise<ConversationSession[]> {
+  const entries = await sessions.entries();
+  return entries
+    .map(([, session]) => session)
+    .filter(session => session.userId === userId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function findSessionByCallId(callId: string): Promise<ConversationSession | undefined> {
+  const entries = await sessions.entries();
+  return entries.map(([, session]) => session).find(session => session.voiceCall?.callId === callId);
+}
+
+export async function countSessions(): Promise<number> {
+  return sessions.size();
+}
+
+export async function countSessionsByStatus(): Promise<Record<ConversationSession['status'], number>> {
+  const counts = { active: 0, paused: 0, completed: 0 };
+  for (const [, session] of await sessions.entries()) {
+    counts[session.status]++;
+  }
+  return counts;
+}
+
+export async function updateSession(
+  sessionId: string,
+  changes: { title?: string; subject?: string; personaId?: string }
+): Promise<ConversationSession | undefined> {
+  const session = await sessions.get(sessionId);
+  if (!session) return undefined;
+
+  const updated: ConversationSession = {
+    ...session,
+    title: changes.title?.trim() || session.title,
+    subject: changes.subject?.trim() || session.subject,
+    personaId: changes.personaId ?? session.personaId,
+    updatedAt: new Date().toISOString()
+  };
+  await sessions.set(sessionId, updated);
+  return updated;
+}
+
+// Mark a session as the one the user is continuing; any other active
+// session for the same user is paused so there is only ever one in play.
+export async function resumeSession(sessionId: string): Promise<ConversationSession | undefined> {
+  const session = await sessions.get(sessionId);
+  if (!session) return undefined;
+
+  const others = await listSessions(session.userId);
+  for (const other of others) {
+    if (other.id !== sessionId && other.status === 'active') {
+      await sessions.set(other.id, { ...other, status: 'paused' });
+    }
+  }
+
+  const now = new Date().toISOString();
+  const resumed: ConversationSession = {
+    ...session,
+    status: 'active',
+    lastResumedAt: now,
+    updatedAt: now
+  };
+  await sessions.set(sessionId, resumed);
+  return resumed;
+}
+
+// At least one student message answered by the tutor; sessions without one earn no rewards
+export function hasExchange(session: ConversationSession): boolean {
+  const firstQuestion = session.messages.findIndex(message => message.role === 'user');
+  return firstQuestion >= 0 && session.messages.slice(firstQuestion + 1).some(message => message.role === 'assistant');
+}
+
+// Close out a session. Completing twice is a no-op so rewards are only given once.
+export async function completeSession(
+  sessionId: string
+): Promise<{ session: ConversationSession; alreadyCompleted: boolean } | undefined> {
+  const session = await sessions.get(sessionId);
+  if (!session) return undefined;
+
+  if (session.status === 'completed') {
+    return { session, alreadyCompleted: true };
+  }
+
+  const now = new Date().toISOString();
+  const completed: ConversationSession = {
+    ...session,
+    status: 'completed',
+    completedAt: now,
+    updatedAt: now
+  };
+  await sessions.set(sessionId, completed);
+  return { session: completed, alreadyCompleted: false };
+}
+
+// Store a voice call that already happened as a completed session
+export async function saveVoiceSession(
+  userId: string,
+  call: {
+    title: string;
+    subject?: string;
+    messages: Array<Pick<SessionMessage, 'role' | 'content'>>;
+    startedAt?: string;
+    endedAt?: string;
+    personaId?: string;
+    voiceCall: VoiceCallDetails;
+  }
+): Promise<ConversationSession> {
+  const endedAt = call.endedAt ?? new Date().toISOString();
+  const startedAt = call.startedAt ?? endedAt;
+  const session: ConversationSession = {
+    id: randomUUID(),
+    userId,
+    title: call.title.trim().substring(0, 60) || DEFAULT_TITLE,
+    subject: call.subject?.trim() || DEFAULT_SUBJECT,
+    status: 'completed',
+    channel: 'voice',
+    personaId: call.personaId,
+    messages: call.messages.map(message => ({
+      id: randomUUID(),
+      role: message.role,
+      content: message.content,
+      timestamp: endedAt,
+      ...(message.role === 'user' ? { mood: classifyEmotion(message.content).mood } : {})
+    })),
+    voiceCall: call.voiceCall,
+    createdAt: startedAt,
+    updatedAt: endedAt,
+    completedAt: endedAt
+  };
+
+  await sessions.set(session.id, session);
+  console.log(`🎙️ Voice session ${session.id} saved for user ${userId}`);
+  return session;
+}
+
+export async function saveHistorySummary(sessionId: string, summary: HistorySummary): Promise<ConversationSession | undefined> {
+  const session = await sessions.get(sessionId);
+  if (!session) return undefined;
+
+  const updated: ConversationSession = { ...session, historySummary: summary };
+  await sessions.set(sessionId, updated);
+  return updated;
+}
+
+export async function deleteSession(sessionId: string): Promise<boolean> {
+  return sessions.delete(sessionId);
+}
+
+export async function appendMessages(
+  sessionId: string,
+  messages: Array<Pick<SessionMessage, 'role' | 'content' | 'mode'>>
+): Promise<ConversationSession | undefined> {
+  const session = await sessions.get(sessionId);
+  if (!session) return undefined;
+
+  const now = new Date().toISOString();
+  const appended = messages.map(message => ({
+    id: randomUUID(),
+    role: message.role,
+    content: message.content,
+    timestamp: now,
+    ...(message.role === 'user' ? { mood: classifyEmotion(message.content).mood } : {}),
+    ...(message.mode ? { mode: message.mode } : {})
+  }));
+
+  // Name untitled sessions after the first question asked in them
+  const firstUserMessage = appended.find(message => message.role === 'user');
+  const title = session.title === DEFAULT_TITLE && session.messages.length === 0 && firstUserMessage
+    ? firstUserMessage.content.trim().substring(0, 60)
+    : session.title;
+
+  const updated: ConversationSession = {
+    ...session,
+    title,
+    messages: [...session.messages, ...appended],
+    updatedAt: now
+  };
+  await sessions.set(sessionId, updated);
+  return updated;
+}
@@ -0,0 +1,195 @@
+import { createCollection } from './storage';
+import { onUserEvent } from './userEvents';
+import { registerPromptContext } from './promptContext';
+import type { DifficultyLevel } from './analytics';
+
+// A running estimate of how far along a student is in each subject. Quiz results move it
+// the most; in chat, follow-up questions nudge it up and confusion nudges it down.
+
+export type SkillTrend = 'rising' | 'falling' | 'steady';
+
+interface SubjectSkill {
+  subject: string;
+  // 0 (just starting out) to 1 (advanced)
+  score: number;
+  // Scores after the latest updates, oldest first; the trend compares the ends
+  recentScores: number[];
+  signals: number;
+  updatedAt: string;
+}
+
+interface SkillRecord {
+  userId: string;
+  subjects: Record<string, SubjectSkill>;
+  // Where the last chat message was, to tell follow-ups from new topics
+  lastSubject?: string;
+  lastMessageAt?: string;
+}
+
+export interface SkillLevel {
+  subject: string;
+  level: DifficultyLevel;
+  score: number;
+  trend: SkillTrend;
+  signals: number;
+  updatedAt: string;
+}
+
+// Where each level sits on the 0-1 scale; the boundaries are halfway between
+const LEVEL_SCORES: Record<DifficultyLevel, number> = { beginner: 0.2, intermediate: 0.5, advanced: 0.8 };
+const STARTING_SCORE = LEVEL_SCORES.intermediate;
+const QUIZ_WEIGHT = 0.4;
+const VOICE_WEIGHT = 0.25;
+// Accuracy on a quiz that keeps the estimate at the quiz's own level
+const PAR_ACCURACY = 0.6;
+const CONFUSION_STEP = -0.05;
+const FOLLOW_UP_STEP = 0.02;
+const FOLLOW_UP_WINDOW_MS = 30 * 60 * 1000;
+const RECENT_LIMIT = 8;
+const TREND_THRESHOLD = 0.05;
+const PROMPT_SUBJECTS = 3;
+
+const CONFUSION_PATTERN = /\b(don'?t (get|understand)|confus|lost|no idea|explain (that |it )?again|simpler|makes no sense)/i;
+const FOLLOW_UP_PATTERN = /\?\s*$|^(why|how|what if|what about|so|then|and|but|could|does|is that)\b/i;
+
+const skills = createCollection<SkillRecord>('skills');
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function levelOf(score: number): DifficultyLevel {
+  if (score < (LEVEL_SCORES.beginner + LEVEL_SCORES.intermediate) / 2) return 'beginner';
+  if (score < (LEVEL_SCORES.intermediate + LEVEL_SCORES.advanced) / 2) return 'intermediate';
+  return 'advanced';
+}
+
+function toLevel(value: unknown): DifficultyLevel | undefined {
+  const level = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+  return level && Object.prototype.hasOwnProperty.call(LEVEL_SCORES, level) ? level as DifficultyLevel : undefined;
+}
+
+function trendOf(skill: SubjectSkill): SkillTrend {
+  const change = skill.score - skill.recentScores[0];
+  if (change > TREND_THRESHOLD) return 'rising';
+  if (change < -TREND_THRESHOLD) return 'falling';
+  return 'steady';
+}
+
+function toSkillLevel(skill: SubjectSkill): SkillLevel {
+  return {
+    subject: skill.subject,
+    level: levelOf(skill.score),
+    score: Number(skill.score.toFixed(2)),
+    trend: trendOf(skill),
+    signals: skill.signals,
+    updatedAt: skill.updatedAt
+  };
+}
+
+async function loadRecord(userId: string): Promise<SkillRecord> {
+  return (await skills.get(userId)) ?? { userId, subjects: {} };
+}
+
+// Move a subject's score; `update` gets the current score (or the starting point for a
+// new subject) and returns the new one
+function adjust(record: SkillRecord, subject: string, at: string, update: (score: number) => number, start = STARTING_SCORE): SkillRecord {
+  const existing = record.subjects[subject];
+  const score = clamp(update(existing?.score ?? start));
+  const skill: SubjectSkill = {
+    subject,
+    score,
+    recentScores: [...(existing?.recentScores ?? [start]), score].slice(-RECENT_LIMIT),
+    signals: (existing?.signals ?? 0) + 1,
+    updatedAt: at
+  };
+  return { ...record, subjects: { ...record.subjects, [subject]: skill } };
+}
+
+function isTracked(subject: unknown): subject is string {
+  return typeof subject === 'string' && subject.trim().length > 0 && subject !== 'General';
+}
+
+// A quiz pulls the score towards its difficulty, higher for good results and lower for poor ones
+async function recordQuizResult(userId: string, data: Record<string, unknown>, at: string): Promise<void> {
+  const level = toLevel(data.difficulty);
+  if (!isTracked(data.subject) || !level || typeof data.total !== 'number' || data.total <= 0) return;
+
+  const accuracy = Number(data.correct) / data.total;
+  const target = clamp(LEVEL_SCORES[level] + (accuracy - PAR_ACCURACY) * 0.75);
+  const record = await loadRecord(userId);
+  await skills.set(userId, adjust(record, data.subject, at, score => score + (target - score) * QUIZ_WEIGHT, LEVEL_SCORES[level]));
+}
+
+async function recordChatSignal(userId: string, data: Record<string, unknown>, at: string): Promise<void> {
+  const record = await loadRecord(userId);
+  const subject = data.subject;
+  const message = typeof data.message === 'string' ? data.message.trim() : '';
+  let updated: SkillRecord = { ...record, lastSubject: isTracked(subject) ? subject : record.lastSubject, lastMessageAt: at };
+
+  if (isTracked(subject)) {
+    const confused = data.mood === 'confused' || data.mood === 'frustrated' || CONFUSION_PATTERN.test(message);
+    const followUp = record.lastSubject === subject
+      && !!record.lastMessageAt
+      && Date.parse(at) - Date.parse(record.lastMessageAt) <= FOLLOW_UP_WINDOW_MS
+      && FOLLOW_UP_PATTERN.test(message);
+
+    if (confused) {
+      updated = adjust(updated, subject, at, score => score + CONFUSION_STEP);
+    } else if (followUp) {
+      updated = adjust(updated, subject, at, score => score + FOLLOW_UP_STEP);
+    }
+  }
+
+  await skills.set(userId, updated);
+}
+
+// The voice agent's difficulty_level for a finished call
+async function recordVoiceDifficulty(userId: string, data: Record<string, unknown>, at: string): Promise<void> {
+  const level = toLevel(data.difficulty);
+  if (!isTracked(data.subject) || !level) return;
+
+  const record = await loadRecord(userId);
+  await skills.set(userId, adjust(record, data.subject, at, score => score + (LEVEL_SCORES[level] - score) * VOICE_WEIGHT, LEVEL_SCORES[level]));
+}
+
+// Most recently practised subjects first
+export async function getSkillLevels(userId: string): Promise<SkillLevel[]> {
+  const record = await loadRecord(userId);
+  return Object.values(record.subjects)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSkillLevel);
+}
+
+// The student's level in one subject, if it is being tracked
+export async function getSkillLevel(userId: string, subject: string): Promise<DifficultyLevel | undefined> {
+  const skill = (await loadRecord(userId)).subjects[subject];
+  return skill ? toSkillLevel(skill).level : undefined;
+}
+
+// Tell the tutor how advanced the student is in the subjects they are working on
+export async function describeSkillLevels(userId: string): Promise<string | undefined> {
+  const levels = (await getSkillLevels(userId)).slice(0, PROMPT_SUBJECTS);
+  if (levels.length === 0) return undefined;
+
+  const summary = levels
+    .map(skill => `${skill.subject} ${skill.level}${skill.trend === 'steady' ? '' : ` (${skill.trend})`}`)
+    .join(', ');
+  return `Estimated skill levels: ${summary}. Pitch explanations to match: basics and simple examples for beginner, more depth and precise terms for intermediate, rigor and connections between ideas for advanced.`;
+}
+
+onUserEvent(async (event) => {
+  const data = event.data ?? {};
+
+  if (event.type === 'message_sent') {
+    await recordChatSignal(event.userId, data, event.occurredAt);
+  }
+  if (event.type === 'quiz_completed') {
+    await recordQuizResult(event.userId, data, event.occurredAt);
+  }
+  if (event.type === 'session_completed' && data.channel === 'voice') {
+    await recordVoiceDifficulty(event.userId, data, event.occurredAt);
+  }
+});
+
+registerPromptContext(describeSkillLevels, { cacheKeyed: true });
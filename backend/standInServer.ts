@@ -0,0 +1,18 @@
+import 'dotenv/config';
+import { createStandInApp, parseFailureSpec } from './omnidimensionStandIn';
+
+const PORT = Number(process.env.STANDIN_PORT) || 4010;
+const API_KEY = process.env.STANDIN_API_KEY || 'standin-key';
+
+const app = createStandInApp({
+  apiKey: API_KEY,
+  failures: parseFailureSpec(process.env.STANDIN_FAILURES)
+});
+
+app.listen(PORT, () => {
+  console.log('🧪 Omnidimension stand-in server started');
+  console.log(`📍 Port: ${PORT}`);
+  console.log('👉 Point the backend at it with:');
+  console.log(`   OMNIDIMENSION_BASE_URL=http://localhost:${PORT} OMNIDIMENSION_API_KEY=${API_KEY}`);
+  console.log('💥 Inject failures with STANDIN_FAILURES, the X-Standin-Fail header or POST /__standin/failures');
+});
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Generic keyed collection used by every backend store.
+// Methods are async so a database-backed driver can be dropped in later.
+export interface Collection<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, T]>>;
+  size(): Promise<number>;
+}
+
+export type StorageDriver = 'memory' | 'file';
+
+export const STORAGE_DRIVER: StorageDriver = process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'file';
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || path.join(process.cwd(), 'data'));
+
+export class MemoryCollection<T> implements Collection<T> {
+  private items = new Map<string, T>();
+
+  async get(key: string): Promise<T | undefined> {
+    return this.items.get(key);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.items.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    return Array.from(this.items.entries());
+  }
+
+  async size(): Promise<number> {
+    return this.items.size;
+  }
+}
+
+// Keeps the whole collection in memory and mirrors it to a JSON file.
+// Writes are serialized and go through a temp file + rename so a crash
+// mid-write never leaves a truncated file behind.
+export class FileCollection<T> implements Collection<T> {
+  private items: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.items) return this.items;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const raw = await fs.readFile(this.filePath, 'utf8');
+          const parsed = JSON.parse(raw) as Record<string, T>;
+          this.items = new Map(Object.entries(parsed));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`❌ Failed to read ${this.filePath}, starting empty:`, error);
+          }
+          this.items = new Map();
+        }
+        return this.items;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.items ?? []), null, 2);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const items = await this.load();
+    return items.get(key);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const items = await this.load();
+    items.set(key, value);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const items = await this.load();
+    const existed = items.delete(key);
+    if (existed) {
+      await this.persist();
+    }
+    return existed;
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    const items = await this.load();
+    return Array.from(items.entries());
+  }
+
+  async size(): Promise<number> {
+    const items = await this.load();
+    return items.size;
+  }
+}
+
+export function createCollection<T>(name: string, driver: StorageDriver = STORAGE_DRIVER): Collection<T> {
+  if (driver === 'memory') {
+    return new MemoryCollection<T>();
+  }
+  return new FileCollection<T>(path.join(DATA_DIR, `${name}.json`));
+}
+
+// Check that the data directory still takes writes, the way a collection writes to it,
+// and leave nothing behind. Memory storage has nothing to check.
+export async function checkStorage(): Promise<void> {
+  if (STORAGE_DRIVER === 'memory') return;
+
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const probePath = path.join(DATA_DIR, `.health.${process.pid}.tmp`);
+  const written = new Date().toISOString();
+  try {
+    await fs.writeFile(probePath, written, 'utf8');
+    if (await fs.readFile(probePath, 'utf8') !== written) {
+      throw new Error('Storage did not return the data just written');
+    }
+  } finally {
+    await fs.rm(probePath, { force: true });
+  }
+}
@@ -0,0 +1,25 @@
+// Keyword-based subject detection for text chat. Subject names line up with
+// the values the Omnidimension `subject_topic` extracted variable produces.
+const SUBJECT_KEYWORDS: Record<string, string[]> = {
+  Math: ['math', 'algebra', 'equation', 'calculus', 'geometry', 'fraction', 'trigonometry', 'derivative', 'integral', 'probability', 'statistics', 'polynomial', 'quadratic'],
+  Science: ['science', 'physics', 'chemistry', 'biology', 'photosynthesis', 'newton', 'atom', 'molecule', 'cell', 'gravity', 'electrostatics', 'evolution', 'velocity', 'acceleration'],
+  History: ['history', 'war', 'empire', 'revolution', 'ancient', 'civilization', 'dynasty', 'medieval', 'independence'],
+  'Computer Science': ['programming', 'code', 'algorithm', 'sorting', 'recursion', 'javascript', 'python', 'data structure', 'database', 'binary'],
+  English: ['grammar', 'essay', 'poem', 'poetry', 'shakespeare', 'novel', 'literature', 'vocabulary'],
+  Geography: ['geography', 'continent', 'climate', 'river', 'mountain', 'latitude', 'longitude', 'plate tectonics'],
+  Economics: ['economics', 'inflation', 'supply and demand', 'gdp', 'market', 'interest rate']
+};
+
+export function detectSubject(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  let best: { subject: string; hits: number } | undefined;
+
+  for (const [subject, keywords] of Object.entries(SUBJECT_KEYWORDS)) {
+    const hits = keywords.filter(keyword => new RegExp(`\\b${keyword}`, 'i').test(lower)).length;
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { subject, hits };
+    }
+  }
+
+  return best?.subject;
+}
@@ -0,0 +1,44 @@
+// In-process event bus for things a user does (chatting, finishing sessions, quiz answers).
+// Feature modules subscribe here instead of being called directly from every route.
+
+export type UserEventType =
+  | 'message_sent'
+  | 'session_completed'
+  | 'focus_session_completed'
+  | 'quiz_answer_correct'
+  | 'quiz_completed';
+
+export interface UserEvent {
+  userId: string;
+  type: UserEventType;
+  occurredAt: string;
+  data?: Record<string, unknown>;
+}
+
+export type UserEventHandler = (event: UserEvent) => Promise<void> | void;
+
+const handlers: UserEventHandler[] = [];
+
+export function onUserEvent(handler: UserEventHandler): void {
+  handlers.push(handler);
+}
+
+// Deliver an event to every subscriber in registration order.
+// A failing subscriber is logged and never blocks the others or the caller.
+export async function emitUserEvent(
+  userId: string,
+  type: UserEventType,
+  data?: Record<string, unknown>
+): Promise<UserEvent> {
+  const event: UserEvent = { userId, type, occurredAt: new Date().toISOString(), data };
+
+  for (const handler of handlers) {
+    try {
+      await handler(event);
+    } catch (error) {
+      console.error(`❌ User event handler failed for ${type}:`, error);
+    }
+  }
+
+  return event;
+}
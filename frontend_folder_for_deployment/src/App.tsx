@@ -1,10 +1,23 @@
 import { useState, useEffect } from 'react';
 import AboutSection from './components/AboutSection';
-import { Gamepad2, Zap, Shield, Crown } from 'lucide-react';
+import ProgressHud from './components/ProgressHud';
+import QuestLog from './components/QuestLog';
+import ChatInterface from './components/ChatInterface';
+import FocusTimer from './components/FocusTimer';
+import FlashcardReview from './components/FlashcardReview';
+import BossBattle from './components/BossBattle';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import LoginPanel from './components/LoginPanel';
+import { omnidimensionApi, AuthUser } from './services/omnidimensionApi';
+import { Gamepad2, LogOut } from 'lucide-react';
 
 
 function App() {
   const [widgetLoaded, setWidgetLoaded] = useState(false);
+  const [isVoiceActive, setIsVoiceActive] = useState(false);
+  const [user, setUser] = useState<AuthUser | null>(omnidimensionApi.getCurrentUser());
+
+  useEffect(() => omnidimensionApi.onAuthChange(setUser), []);
 
   // Check if Omnidimension widget is loaded
   useEffect(() => {
@@ -77,29 +90,21 @@ function App() {
               </div>
               
               {/* Gaming Stats */}
-              <div className="hidden md:flex items-center space-x-6">
-                <div className="text-center">
-                  <div className="flex items-center space-x-1 text-cyan-400">
-                    <Zap className="w-4 h-4" />
-                    <span className="text-sm font-bold">POWER</span>
-                  </div>
-                  <div className="text-2xl font-bold text-white">100%</div>
-                </div>
-                <div className="text-center">
-                  <div className="flex items-center space-x-1 text-purple-400">
-                    <Shield className="w-4 h-4" />
-                    <span className="text-sm font-bold">SECURE</span>
+              {user && (
+                <div className="flex items-center space-x-4">
+                  <ProgressHud />
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-purple-300 font-bold">{user.displayName}</span>
+                    <button
+                      onClick={() => omnidimensionApi.logout()}
+                      className="p-2 rounded-lg bg-white/10 text-slate-300 hover:bg-white/20"
+                      title="Sign out"
+                    >
+                      <LogOut className="w-4 h-4" />
+                    </button>
                   </div>
-                  <div className="text-2xl font-bold text-white">MAX</div>
                 </div>
-                <div className="text-center">
-                  <div className="flex items-center space-x-1 text-yellow-400">
-                    <Crown className="w-4 h-4" />
-                    <span className="text-sm font-bold">LEVEL</span>
-                  </div>
-                  <div className="text-2xl font-bold text-white">∞</div>
-                </div>
-              </div>
+              )}
             </div>
           </div>
         </header>
@@ -107,6 +112,28 @@ function App() {
         {/* Main Gaming Interface */}
         <main className="max-w-7xl mx-auto px-6 py-12">
           <AboutSection widgetLoaded={widgetLoaded} />
+
+          {/* Everything below is per-user; keyed on the user so panels reload after switching accounts */}
+          {user ? (
+            <div key={user.id}>
+              {/* Study Station: chat with the captain next to the focus timer */}
+              <section className="mt-12 grid gap-6 lg:grid-cols-3">
+                <div className="lg:col-span-2 bg-black/40 backdrop-blur-xl rounded-3xl border border-purple-500/30 shadow-2xl overflow-hidden">
+                  <ChatInterface isVoiceActive={isVoiceActive} setIsVoiceActive={setIsVoiceActive} />
+                </div>
+                <div className="space-y-6">
+                  <FocusTimer />
+                  <FlashcardReview />
+                </div>
+              </section>
+
+              <BossBattle />
+              <QuestLog />
+              <AnalyticsDashboard />
+            </div>
+          ) : (
+            <LoginPanel />
+          )}
         </main>
 
         {/* Gaming Footer */}
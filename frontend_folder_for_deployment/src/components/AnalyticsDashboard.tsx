@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, TrendingUp, TrendingDown, Minus, RefreshCw } from 'lucide-react';
+import { omnidimensionApi, UserAnalytics, DayPart, SkillLevel } from '../services/omnidimensionApi';
+import { Mood, MOODS, MOOD_LABELS } from '../../../shared/emotion';
+
+const RANGES = [7, 30, 90];
+const DAY_PARTS: DayPart[] = ['morning', 'afternoon', 'evening', 'night'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Same palette for CSS bars and SVG strokes
+const MOOD_COLORS: Record<Mood, string> = {
+  happy: '#4ade80',
+  excited: '#f472b6',
+  confused: '#facc15',
+  tired: '#60a5fa',
+  frustrated: '#f87171',
+  neutral: '#94a3b8'
+};
+const MODE_COLORS = ['#a78bfa', '#22d3ee', '#fb923c', '#4ade80', '#f472b6', '#facc15'];
+
+const DIFFICULTY_LABELS = ['', 'Beginner', 'Intermediate', 'Advanced'];
+const TREND_ARROWS: Record<SkillLevel['trend'], string> = { rising: '↑', steady: '', falling: '↓' };
+
+// Donut chart of the learning mode mix, drawn with stroke dash offsets
+const ModeDonut: React.FC<{ modes: UserAnalytics['learningModes'] }> = ({ modes }) => {
+  const radius = 40;
+  const circumference = 2 * Math.PI * radius;
+  const total = modes.reduce((sum, mode) => sum + mode.count, 0);
+  let offset = 0;
+
+  return (
+    <div className="flex items-center gap-4">
+      <svg viewBox="0 0 100 100" className="w-28 h-28 -rotate-90">
+        <circle cx="50" cy="50" r={radius} fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="14" />
+        {modes.map((mode, index) => {
+          const length = (mode.count / total) * circumference;
+          const segment = (
+            <circle
+              key={mode.mode}
+              cx="50"
+              cy="50"
+              r={radius}
+              fill="none"
+              stroke={MODE_COLORS[index % MODE_COLORS.length]}
+              strokeWidth="14"
+              strokeDasharray={`${length} ${circumference - length}`}
+              strokeDashoffset={-offset}
+            />
+          );
+          offset += length;
+          return segment;
+        })}
+      </svg>
+      <ul className="space-y-1 text-sm">
+        {modes.map((mode, index) => (
+          <li key={mode.mode} className="flex items-center space-x-2 text-slate-300">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: MODE_COLORS[index % MODE_COLORS.length] }}></span>
+            <span>{mode.mode}</span>
+            <span className="text-slate-500">{mode.percent}%</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Line chart of the average difficulty level (1-3) per day
+const DifficultyLine: React.FC<{ points: UserAnalytics['difficulty']['timeline'] }> = ({ points }) => {
+  const width = 300;
+  const height = 100;
+  const x = (index: number) => (points.length === 1 ? width / 2 : (index / (points.length - 1)) * width);
+  const y = (level: number) => height - ((level - 1) / 2) * (height - 10) - 5;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28" preserveAspectRatio="none">
+      {[1, 2, 3].map(level => (
+        <line key={level} x1="0" x2={width} y1={y(level)} y2={y(level)} stroke="rgba(255,255,255,0.1)" strokeDasharray="4 4" />
+      ))}
+      <polyline
+        fill="none"
+        stroke="#a78bfa"
+        strokeWidth="3"
+        points={points.map((point, index) => `${x(index)},${y(point.averageLevel)}`).join(' ')}
+      />
+      {points.map((point, index) => (
+        <circle key={point.date} cx={x(index)} cy={y(point.averageLevel)} r="4" fill="#f472b6">
+          <title>{`${point.date}: ${point.averageLevel} (${point.samples} samples)`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const AnalyticsDashboard: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<UserAnalytics | null>(null);
+  const [skills, setSkills] = useState<SkillLevel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loaded, skillLevels] = await Promise.all([
+        omnidimensionApi.getAnalytics(days),
+        omnidimensionApi.getSkillLevels()
+      ]);
+      setAnalytics(loaded);
+      setSkills(skillLevels);
+    } catch (error) {
+      console.warn('⚠️ Could not load analytics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const maxDaySamples = Math.max(1, ...(analytics?.mood.timeline.map(day => day.samples) ?? []));
+  const maxPatternSamples = Math.max(1, ...(analytics?.mood.patterns.map(cell => cell.samples) ?? []));
+  const maxSubjectMinutes = Math.max(1, ...(analytics?.subjects.breakdown.map(entry => entry.minutes) ?? []));
+
+  return (
+    <section className="mt-12 bg-black/40 backdrop-blur-xl rounded-3xl border border-purple-500/30 p-6 shadow-2xl">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <BarChart3 className="w-6 h-6 text-cyan-400" />
+          <h2 className="text-2xl font-bold text-white font-poppins">Learning Insights</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 rounded-lg text-sm font-bold transition-colors ${
+                days === range ? 'bg-cyan-500/30 text-cyan-200' : 'bg-white/10 text-slate-300 hover:bg-white/20'
+              }`}
+            >
+              {range}d
+            </button>
+          ))}
+          <button onClick={loadAnalytics} disabled={isLoading} className="p-2 rounded-lg bg-white/10 text-slate-300 hover:bg-white/20 disabled:opacity-50" title="Refresh">
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {!analytics || (analytics.mood.timeline.length === 0 && analytics.subjects.breakdown.length === 0) ? (
+        <p className="text-slate-400 font-inter">Chat with Captain Focus for a while and your patterns will show up here.</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Mood over time: one stacked bar per day */}
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+            <h3 className="text-sm font-bold text-purple-300 mb-3">Mood Over Time</h3>
+            <div className="flex items-end gap-1 h-32">
+              {analytics.mood.timeline.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 flex flex-col-reverse rounded-t overflow-hidden min-w-[4px]"
+                  style={{ height: `${(day.samples / maxDaySamples) * 100}%` }}
+                  title={`${day.date}: mostly ${day.dominant}`}
+                >
+                  {MOODS.filter(mood => day.counts[mood] > 0).map(mood => (
+                    <div key={mood} style={{ flexGrow: day.counts[mood], backgroundColor: MOOD_COLORS[mood] }}></div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3">
+              {MOODS.map(mood => (
+                <span key={mood} className="flex items-center space-x-1 text-xs text-slate-400">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: MOOD_COLORS[mood] }}></span>
+                  <span>{MOOD_LABELS[mood]} {analytics.mood.totals[mood]}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Weekly rhythm: dominant mood per weekday and time of day */}
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+            <h3 className="text-sm font-bold text-purple-300 mb-3">Weekly Rhythm</h3>
+            <div className="grid grid-cols-[auto_repeat(4,1fr)] gap-1 text-xs">
+              <span></span>
+              {DAY_PARTS.map(part => (
+                <span key={part} className="text-center text-slate-500 capitalize">{part}</span>
+              ))}
+              {WEEKDAYS.map((weekday, index) => (
+                <React.Fragment key={weekday}>
+                  <span className="text-slate-400 pr-2">{weekday}</span>
+                  {DAY_PARTS.map(part => {
+                    const cell = analytics.mood.patterns.find(pattern => pattern.weekday === index && pattern.dayPart === part);
+                    return (
+                      <div
+                        key={part}
+                        className="h-5 rounded"
+                        style={{
+                          backgroundColor: cell ? MOOD_COLORS[cell.dominant] : 'rgba(255,255,255,0.05)',
+                          opacity: cell ? 0.35 + 0.65 * (cell.samples / maxPatternSamples) : 1
+                        }}
+                        title={cell ? `${weekday} ${part}: mostly ${cell.dominant} (${cell.samples})` : undefined}
+                      ></div>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+            {analytics.mood.insights.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {analytics.mood.insights.map(insight => (
+                  <li key={insight} className="text-sm text-cyan-200">💡 {insight}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Time per subject */}
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+            <h3 className="text-sm font-bold text-purple-300 mb-3">
+              Time Per Subject <span className="text-slate-500 font-normal">({analytics.subjects.totalMinutes} min)</span>
+            </h3>
+            <div className="space-y-2">
+              {analytics.subjects.breakdown.map(entry => (
+                <div key={entry.subject}>
+                  <div className="flex justify-between text-xs text-slate-300 mb-1">
+                    <span>{entry.subject}</span>
+                    <span>{entry.minutes} min</span>
+                  </div>
+                  <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-cyan-400 to-purple-500"
+                      style={{ width: `${(entry.minutes / maxSubjectMinutes) * 100}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Learning modes and difficulty */}
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-4">
+            <div>
+              <h3 className="text-sm font-bold text-purple-300 mb-3">Learning Modes</h3>
+              {analytics.learningModes.length > 0
+                ? <ModeDonut modes={analytics.learningModes} />
+                : <p className="text-xs text-slate-500">No learning modes recorded yet.</p>}
+            </div>
+            <div>
+              <h3 className="text-sm font-bold text-purple-300 mb-2">Difficulty Trend</h3>
+              {analytics.difficulty.timeline.length > 0 ? (
+                <>
+                  <DifficultyLine points={analytics.difficulty.timeline} />
+                  <ul className="mt-2 space-y-1">
+                    {analytics.difficulty.bySubject.map(trend => (
+                      <li key={trend.subject} className="flex items-center justify-between text-xs text-slate-300">
+                        <span>{trend.subject}</span>
+                        <span className="flex items-center space-x-1">
+                          <span>{DIFFICULTY_LABELS[Math.round(trend.averageLevel)]}</span>
+                          {trend.trend === 'rising' && <TrendingUp className="w-4 h-4 text-green-400" />}
+                          {trend.trend === 'falling' && <TrendingDown className="w-4 h-4 text-red-400" />}
+                          {trend.trend === 'steady' && <Minus className="w-4 h-4 text-slate-500" />}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <p className="text-xs text-slate-500">Win a Boss Battle to start tracking difficulty.</p>
+              )}
+            </div>
+            {skills.length > 0 && (
+              <div>
+                <h3 className="text-sm font-bold text-purple-300 mb-2">Skill Levels</h3>
+                <ul className="space-y-2">
+                  {skills.map(skill => (
+                    <li key={skill.subject} className="text-xs text-slate-300">
+                      <div className="flex justify-between mb-1">
+                        <span>{skill.subject}</span>
+                        <span className={skill.trend === 'rising' ? 'text-green-400' : skill.trend === 'falling' ? 'text-red-400' : ''}>
+                          {skill.level[0].toUpperCase() + skill.level.slice(1)} {TREND_ARROWS[skill.trend]}
+                        </span>
+                      </div>
+                      <div className="w-full h-1.5 bg-white/10 rounded-full overflow-hidden">
+                        <div className="h-full bg-gradient-to-r from-green-400 to-cyan-400" style={{ width: `${skill.score * 100}%` }}></div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Skull, Heart, Swords, ArrowRight, RotateCcw } from 'lucide-react';
+import { omnidimensionApi, Quiz, QuizDifficulty, QuestionResult } from '../services/omnidimensionApi';
+
+const DIFFICULTIES: QuizDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+const PLAYER_HEARTS = 3;
+
+const BossBattle: React.FC = () => {
+  const [topic, setTopic] = useState('');
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>('intermediate');
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [lastResult, setLastResult] = useState<QuestionResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startBattle = async () => {
+    if (!topic.trim()) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      setQuiz(await omnidimensionApi.createQuiz(topic.trim(), difficulty));
+      setLastResult(null);
+      setAnswer('');
+    } catch (startError) {
+      console.error('❌ Could not start Boss Battle:', startError);
+      setError(startError instanceof Error ? startError.message : 'Could not start the battle');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const currentQuestion = quiz?.questions.find(question => !question.result);
+
+  const submitAnswer = async (value: string) => {
+    if (!quiz || !currentQuestion || !value.trim()) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { results, quiz: updated } = await omnidimensionApi.answerQuiz(quiz.id, [
+        { questionId: currentQuestion.id, answer: value }
+      ]);
+      setLastResult(results[0] ?? null);
+      setQuiz(updated);
+      setAnswer('');
+    } catch (answerError) {
+      console.error('❌ Could not submit answer:', answerError);
+      setError(answerError instanceof Error ? answerError.message : 'Could not submit the answer');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const resetBattle = () => {
+    setQuiz(null);
+    setLastResult(null);
+    setTopic('');
+  };
+
+  if (!quiz) {
+    return (
+      <section className="mt-12 bg-black/40 backdrop-blur-xl rounded-3xl border border-red-500/30 p-6 shadow-2xl">
+        <div className="flex items-center space-x-3 mb-4">
+          <Skull className="w-6 h-6 text-red-400" />
+          <h2 className="text-2xl font-bold text-white font-poppins">Boss Battle</h2>
+        </div>
+        <p className="text-slate-300 mb-4 font-inter">Pick a topic and face its boss. Every right answer is a hit!</p>
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && startBattle()}
+            placeholder="e.g. Photosynthesis, Fractions, World War I"
+            className="flex-1 bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-slate-400"
+          />
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as QuizDifficulty)}
+            className="bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white capitalize"
+          >
+            {DIFFICULTIES.map(level => (
+              <option key={level} value={level} className="bg-slate-800">{level}</option>
+            ))}
+          </select>
+          <button
+            onClick={startBattle}
+            disabled={isBusy || !topic.trim()}
+            className="flex items-center justify-center space-x-2 px-6 py-2 bg-gradient-to-r from-red-600 to-orange-600 text-white font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition-opacity"
+          >
+            <Swords className="w-5 h-5" />
+            <span>{isBusy ? 'Summoning...' : 'Fight!'}</span>
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-300 mt-3">{error}</p>}
+      </section>
+    );
+  }
+
+  const { correct, answered, total } = quiz.progress;
+  const bossHealthPercent = total > 0 ? Math.round(((total - correct) / total) * 100) : 0;
+  const heartsLeft = Math.max(PLAYER_HEARTS - (answered - correct), 0);
+  const victory = quiz.status === 'completed' && correct * 2 >= total;
+
+  return (
+    <section className="mt-12 bg-black/40 backdrop-blur-xl rounded-3xl border border-red-500/30 p-6 shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Skull className="w-6 h-6 text-red-400" />
+          <h2 className="text-2xl font-bold text-white font-poppins">Boss Battle: {quiz.topic}</h2>
+        </div>
+        <div className="flex items-center space-x-1" title="Your hearts">
+          {Array.from({ length: PLAYER_HEARTS }, (_, index) => (
+            <Heart key={index} className={`w-5 h-5 ${index < heartsLeft ? 'text-pink-400 fill-pink-400' : 'text-slate-600'}`} />
+          ))}
+        </div>
+      </div>
+
+      {/* Boss health bar */}
+      <div className="mb-6">
+        <div className="flex justify-between text-xs font-bold text-red-300 mb-1">
+          <span>BOSS HP</span>
+          <span>{total - correct}/{total}</span>
+        </div>
+        <div className="w-full h-3 bg-white/10 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-red-500 to-orange-400 transition-all duration-700"
+            style={{ width: `${bossHealthPercent}%` }}
+          ></div>
+        </div>
+        <div className="text-xs text-slate-400 mt-1 capitalize">{quiz.difficulty} • Question {Math.min(answered + 1, total)} of {total}</div>
+      </div>
+
+      {lastResult && (
+        <div className={`rounded-2xl border p-4 mb-4 ${lastResult.correct ? 'bg-green-500/10 border-green-400/30' : 'bg-red-500/10 border-red-400/30'}`}>
+          <p className={`font-bold ${lastResult.correct ? 'text-green-300' : 'text-red-300'}`}>{lastResult.feedback}</p>
+          {lastResult.explanation && <p className="text-sm text-slate-300 mt-1">{lastResult.explanation}</p>}
+        </div>
+      )}
+
+      {currentQuestion ? (
+        <div>
+          <p className="text-lg text-white font-medium mb-4">{currentQuestion.prompt}</p>
+          {currentQuestion.type === 'multiple_choice' ? (
+            <div className="grid gap-3 md:grid-cols-2">
+              {currentQuestion.choices?.map(choice => (
+                <button
+                  key={choice}
+                  onClick={() => submitAnswer(choice)}
+                  disabled={isBusy}
+                  className="text-left px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white hover:bg-purple-500/20 hover:border-purple-400/40 disabled:opacity-50 transition-colors"
+                >
+                  {choice}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <input
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submitAnswer(answer)}
+                placeholder="Type your answer..."
+                className="flex-1 bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-slate-400"
+              />
+              <button
+                onClick={() => submitAnswer(answer)}
+                disabled={isBusy || !answer.trim()}
+                className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition-opacity"
+              >
+                <span>Strike</span>
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center">
+          <p className={`text-3xl font-bold mb-2 ${victory ? 'text-yellow-300' : 'text-slate-300'}`}>
+            {victory ? '🏆 Boss Defeated!' : '💀 The boss survived... this time'}
+          </p>
+          <p className="text-slate-300 mb-4">You landed {correct} of {total} hits.</p>
+          <button
+            onClick={resetBattle}
+            className="inline-flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-red-600 to-orange-600 text-white font-bold rounded-xl hover:opacity-90 transition-opacity"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>New Battle</span>
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300 mt-3">{error}</p>}
+    </section>
+  );
+};
+
+export default BossBattle;
@@ -1,11 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Sparkles, Heart, Brain, Zap, Mic, MicOff, Settings, X} from 'lucide-react';
+import { Send, Sparkles, Heart, Brain, Zap, Mic, MicOff, Settings, X, Flame, Rocket } from 'lucide-react';
+import { omnidimensionApi, LearningMode, LearningModeInfo, Persona, RateLimitError } from '../services/omnidimensionApi';
+import { Mood, classifyEmotion } from '../../../shared/emotion';
 
 interface Message {
   id: string;
   text: string;
   sender: 'user' | 'captain';
-  mood?: 'tired' | 'confused' | 'happy' | 'neutral';
+  mood?: Mood;
+  // Which tutor wrote a captain message; missing means Captain Focus
+  personaName?: string;
+  mode?: LearningMode;
   timestamp: Date;
 }
 
@@ -15,6 +20,21 @@ interface VoiceSettings {
   rate: number;
 }
 
+const DEFAULT_TUTOR_NAME = 'Captain Focus';
+
+// First browser voice whose name contains one of the hints, trying the best hint first
+function findVoiceIndex(voices: SpeechSynthesisVoice[], hints: string[]): number {
+  for (const hint of hints) {
+    const index = voices.findIndex(voice => voice.name.toLowerCase().includes(hint.toLowerCase()));
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).map(word => word[0]).join('').substring(0, 2).toUpperCase();
+}
+
 interface ChatInterfaceProps {
   isVoiceActive: boolean;
   setIsVoiceActive: (active: boolean) => void;
@@ -37,6 +57,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
   const [showSettings, setShowSettings] = useState(false);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [showWidgetInfo, setShowWidgetInfo] = useState(true);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState(omnidimensionApi.getPersonaId());
+  const [learningModes, setLearningModes] = useState<LearningModeInfo[]>([]);
+  const [learningMode, setLearningMode] = useState<LearningMode | null>(omnidimensionApi.getLearningMode());
   const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() => {
     const saved = localStorage.getItem('captainFocusVoiceSettings');
     return saved ? JSON.parse(saved) : {
@@ -57,6 +81,58 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
     scrollToBottom();
   }, [messages]);
 
+  const activePersona = personas.find(persona => persona.id === personaId);
+  const tutorName = activePersona?.name ?? DEFAULT_TUTOR_NAME;
+
+  // Load the tutor personas; a remembered persona that no longer exists falls back to the first one
+  useEffect(() => {
+    omnidimensionApi.getPersonas()
+      .then(loaded => {
+        setPersonas(loaded);
+        if (loaded.length > 0 && !loaded.some(persona => persona.id === omnidimensionApi.getPersonaId())) {
+          omnidimensionApi.setPersonaId(loaded[0].id);
+          setPersonaId(loaded[0].id);
+        }
+      })
+      .catch(error => console.warn('⚠️ Could not load personas:', error));
+  }, []);
+
+  useEffect(() => {
+    omnidimensionApi.getLearningModes()
+      .then(setLearningModes)
+      .catch(error => console.warn('⚠️ Could not load learning modes:', error));
+  }, []);
+
+  const chooseLearningMode = (mode: LearningMode | null) => {
+    omnidimensionApi.setLearningMode(mode);
+    setLearningMode(mode);
+  };
+
+  const modeInfo = (mode?: LearningMode) => learningModes.find(candidate => candidate.id === mode);
+
+  // Switching tutors also switches the browser voice to one that suits them
+  const choosePersona = (persona: Persona) => {
+    if (persona.id === personaId) return;
+
+    omnidimensionApi.setPersonaId(persona.id);
+    setPersonaId(persona.id);
+
+    const voiceIndex = findVoiceIndex(availableVoices, persona.speech.voiceHints);
+    setVoiceSettings(prev => ({
+      selectedVoice: voiceIndex >= 0 ? voiceIndex : prev.selectedVoice,
+      pitch: persona.speech.pitch,
+      rate: persona.speech.rate
+    }));
+
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      text: persona.welcomeMessage,
+      sender: 'captain',
+      personaName: persona.name,
+      timestamp: new Date()
+    }]);
+  };
+
   // Save voice settings to localStorage whenever they change
   useEffect(() => {
     localStorage.setItem('captainFocusVoiceSettings', JSON.stringify(voiceSettings));
@@ -135,15 +211,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
     }
   }, [isVoiceActive, isListening]);
 
-  const detectMood = (text: string): 'tired' | 'confused' | 'happy' | 'neutral' => {
-    const tired = /tired|exhausted|sleepy|bored|overwhelmed/i.test(text);
-    const confused = /confused|don't understand|help|stuck|hard|difficult/i.test(text);
-    const happy = /great|awesome|got it|understand|thanks|good/i.test(text);
+  const createUtterance = (text: string) => {
+    const utterance = new SpeechSynthesisUtterance(text.replace(/[🎮🤔🌙⚡🎯🧠💡🗝️📚⚔️🚀✨🎉🏆🧩💙🌟😌🔧🔌❌🌐]/g, ''));
     
-    if (tired) return 'tired';
-    if (confused) return 'confused';
-    if (happy) return 'happy';
-    return 'neutral';
+    if (availableVoices[voiceSettings.selectedVoice]) {
+      utterance.voice = availableVoices[voiceSettings.selectedVoice];
+    }
+    utterance.rate = voiceSettings.rate;
+    utterance.pitch = voiceSettings.pitch;
+    utterance.volume = 0.8;
+    
+    // Queued sentences keep the speaking indicator on until the last one ends
+    utterance.onend = () => setIsSpeaking(speechSynthesis.pending);
+    utterance.onerror = () => setIsSpeaking(false);
+    return utterance;
   };
 
   const speakText = (text: string) => {
@@ -151,29 +232,25 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
       speechSynthesis.cancel();
       
       setIsSpeaking(true);
-      const utterance = new SpeechSynthesisUtterance(text.replace(/[🎮🤔🌙⚡🎯🧠💡🗝️📚⚔️🚀✨🎉🏆🧩💙🌟😌🔧🔌❌🌐]/g, ''));
-      
-      if (availableVoices[voiceSettings.selectedVoice]) {
-        utterance.voice = availableVoices[voiceSettings.selectedVoice];
-      }
-      utterance.rate = voiceSettings.rate;
-      utterance.pitch = voiceSettings.pitch;
-      utterance.volume = 0.8;
-      
-      utterance.onend = () => setIsSpeaking(false);
-      utterance.onerror = () => setIsSpeaking(false);
-      
-      speechSynthesis.speak(utterance);
+      speechSynthesis.speak(createUtterance(text));
+    }
+  };
+
+  // Queue a sentence behind whatever is already being spoken
+  const queueSpeech = (text: string) => {
+    if ('speechSynthesis' in window && text.trim()) {
+      setIsSpeaking(true);
+      speechSynthesis.speak(createUtterance(text));
     }
   };
 
   const testVoice = () => {
-    speakText("Hello! This is how Captain Focus sounds with your current voice settings. Ready for an epic learning adventure?");
+    speakText(`Hello! This is how ${tutorName} sounds with your current voice settings. Ready for an epic learning adventure?`);
   };
 
   const generateCaptainResponse = (userMessage: string): string => {
-    const mood = detectMood(userMessage);
-    const responses = {
+    const { mood } = classifyEmotion(userMessage);
+    const responses: Record<Mood, string[]> = {
       tired: [
         "🌙 I sense you're feeling a bit drained, brave scholar! That's totally normal - even heroes need rest. Let's take this one small step at a time. What's one tiny thing we can tackle together? You've got more strength than you realize! 💙",
         "😌 Hey there, tired warrior! Learning when you're exhausted is like fighting a boss battle on low health - let's find you a power-up! What subject is weighing on you? We'll break it down into bite-sized quests! ⚡",
@@ -184,11 +261,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
         "🗝️ Don't worry, confusion is the first step to understanding! Think of it as standing before a locked door - we just need to find the right key. What topic is giving you trouble? Let's unlock it together! ✨",
         "🎯 Perfect! Questions mean you're thinking deeply. That's exactly what scholars do! Tell me what's puzzling you, and we'll turn this confusion into your next 'Aha!' moment. Ready for the challenge? 🚀"
       ],
+      frustrated: [
+        "🛡️ I hear you - that sounds really frustrating, and it's completely okay to feel that way. Even legendary heroes get knocked back sometimes. Let's take a breath and come at this from a new angle. Which part keeps tripping you up? 💙",
+        "💪 Tough bosses take a few tries, champion! Frustration just means you care about getting it right. Let's slow down and beat this one move at a time. Show me where it goes wrong and we'll fix it together! 🔧"
+      ],
       happy: [
         "🎉 I love that energy! You're absolutely crushing it, champion! That enthusiasm is your secret weapon for learning. What amazing topic shall we dive into next? Let's keep this momentum going! ⚔️",
         "✨ Yes! That's the spirit of a true learning hero! Your positive attitude is like a power-up that makes everything easier. What subject are you excited to explore? Let's turn up the adventure! 🏆",
         "🌟 Fantastic! You're radiating scholar energy! When you're this motivated, there's no limit to what you can achieve. What quest shall we embark on? I'm ready to guide you to victory! 🎮"
       ],
+      excited: [
+        "🚀 Whoa, that excitement is contagious! Curiosity like yours is the rarest loot in the realm. Let's channel it into an epic deep dive - where shall we start? ⚡",
+        "🤩 YES! I love seeing you this fired up! Let's ride that energy straight into a bonus challenge. What are you most curious about right now? 🏆"
+      ],
       neutral: [
         "🎮 Greetings, fellow scholar! I'm here and ready to turn your study session into an epic adventure. What subject would you like to conquer today? Every great quest starts with a single step! ⚔️",
         "📚 Welcome back to our learning realm! Whether you're tackling homework, preparing for exams, or just curious about something, I'm your trusty companion. What knowledge shall we unlock together? ✨",
@@ -207,6 +292,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
       id: Date.now().toString(),
       text: inputText,
       sender: 'user',
+      mode: learningMode ?? undefined,
       timestamp: new Date()
     };
 
@@ -215,25 +301,73 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
     setInputText('');
     setIsTyping(true);
 
-    // Simulate thinking time
-    setTimeout(() => {
-      const mood = detectMood(currentInput);
-      const responseText = generateCaptainResponse(currentInput);
-      
-      const captainMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: responseText,
-        sender: 'captain',
-        mood,
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, captainMessage]);
-      setIsTyping(false);
-      
-      // Speak the response
+    const { mood } = classifyEmotion(currentInput);
+    const captainMessageId = (Date.now() + 1).toString();
+    let started = false;
+    let unspoken = '';
+
+    const updateCaptainMessage = (text: string) => {
+      setMessages(prev => prev.map(message =>
+        message.id === captainMessageId ? { ...message, text } : message
+      ));
+    };
+
+    if ('speechSynthesis' in window) {
+      speechSynthesis.cancel();
+    }
+
+    try {
+      let streamedText = '';
+      await omnidimensionApi.streamMessage(currentInput, {
+        onDelta: (delta) => {
+          if (!started) {
+            started = true;
+            setIsTyping(false);
+            setMessages(prev => [...prev, {
+              id: captainMessageId,
+              text: '',
+              sender: 'captain',
+              mood,
+              personaName: tutorName,
+              mode: learningMode ?? undefined,
+              timestamp: new Date()
+            }]);
+          }
+
+          streamedText += delta;
+          updateCaptainMessage(streamedText);
+
+          // Speak each sentence as soon as it is complete
+          unspoken += delta;
+          const boundary = Math.max(...['. ', '! ', '? ', '\n'].map(mark => unspoken.lastIndexOf(mark)));
+          if (boundary >= 0) {
+            queueSpeech(unspoken.slice(0, boundary + 1));
+            unspoken = unspoken.slice(boundary + 1);
+          }
+        },
+      });
+      queueSpeech(unspoken);
+    } catch (error) {
+      // Rate limits are not outages: tell the student when to come back instead of faking a reply
+      const rateLimited = error instanceof RateLimitError;
+      if (!rateLimited) console.warn('🔄 Streaming failed, using offline Captain response:', error);
+      const responseText = rateLimited ? `⏳ ${error.message}` : generateCaptainResponse(currentInput);
+
+      if (started) {
+        updateCaptainMessage(responseText);
+      } else {
+        setMessages(prev => [...prev, {
+          id: captainMessageId,
+          text: responseText,
+          sender: 'captain',
+          mood,
+          timestamp: new Date()
+        }]);
+      }
       speakText(responseText);
-    }, 1000 + Math.random() * 1000); // Random delay between 1-2 seconds
+    } finally {
+      setIsTyping(false);
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -251,11 +385,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
     setIsVoiceActive(!isVoiceActive);
   };
 
-  const getMoodIcon = (mood?: string) => {
+  const getMoodIcon = (mood?: Mood) => {
     switch (mood) {
       case 'tired': return <Heart className="w-4 h-4 text-blue-400" />;
       case 'confused': return <Brain className="w-4 h-4 text-yellow-400" />;
       case 'happy': return <Sparkles className="w-4 h-4 text-green-400" />;
+      case 'frustrated': return <Flame className="w-4 h-4 text-red-400" />;
+      case 'excited': return <Rocket className="w-4 h-4 text-pink-400" />;
       default: return <Zap className="w-4 h-4 text-purple-400" />;
     }
   };
@@ -290,6 +426,48 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
         </div>
       )}
 
+      {/* Tutor picker */}
+      {personas.length > 1 && (
+        <div className="flex items-center gap-2 px-6 pt-4 overflow-x-auto">
+          {personas.map(persona => (
+            <button
+              key={persona.id}
+              onClick={() => choosePersona(persona)}
+              title={persona.description}
+              className={`flex items-center space-x-2 px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap transition-colors ${
+                persona.id === personaId
+                  ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
+                  : 'bg-white/10 text-purple-200 hover:bg-white/20'
+              }`}
+            >
+              <span>{initials(persona.name)}</span>
+              <span>{persona.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Learning mode switcher */}
+      {learningModes.length > 0 && (
+        <div className="flex items-center gap-2 px-6 pt-3 overflow-x-auto">
+          <span className="text-xs text-purple-300 whitespace-nowrap">Mode:</span>
+          {[null, ...learningModes].map(mode => (
+            <button
+              key={mode?.id ?? 'auto'}
+              onClick={() => chooseLearningMode(mode?.id ?? null)}
+              title={mode?.description ?? 'Let the tutor decide how to answer'}
+              className={`px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap transition-colors ${
+                (mode?.id ?? null) === learningMode
+                  ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
+                  : 'bg-white/10 text-purple-200 hover:bg-white/20'
+              }`}
+            >
+              {mode ? `${mode.emoji} ${mode.label}` : '🎲 Auto'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Voice Settings Modal */}
       {showSettings && (
         <div className="absolute inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -401,10 +579,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
               {message.sender === 'captain' && (
                 <div className="flex items-center space-x-2 mb-2">
                   <div className="w-6 h-6 bg-gradient-to-r from-purple-400 to-pink-400 rounded-full flex items-center justify-center text-xs font-bold">
-                    CF
+                    {initials(message.personaName ?? DEFAULT_TUTOR_NAME)}
                   </div>
-                  <span className="text-xs text-purple-300">Captain Focus</span>
+                  <span className="text-xs text-purple-300">{message.personaName ?? DEFAULT_TUTOR_NAME}</span>
                   {message.mood && getMoodIcon(message.mood)}
+                  {modeInfo(message.mode) && (
+                    <span className="text-xs text-cyan-300">{modeInfo(message.mode)?.emoji} {modeInfo(message.mode)?.label}</span>
+                  )}
                   {isSpeaking && (
                     <div className="flex space-x-1">
                       <div className="w-1 h-1 bg-green-400 rounded-full animate-bounce"></div>
@@ -414,7 +595,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
                   )}
                 </div>
               )}
-              <p className="text-sm leading-relaxed">{message.text}</p>
+              <p className="text-sm leading-relaxed whitespace-pre-line">{message.text}</p>
             </div>
           </div>
         ))}
@@ -424,7 +605,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
             <div className="bg-white/10 backdrop-blur-md text-white border border-white/20 px-4 py-3 rounded-2xl">
               <div className="flex items-center space-x-2">
                 <div className="w-6 h-6 bg-gradient-to-r from-purple-400 to-pink-400 rounded-full flex items-center justify-center text-xs font-bold">
-                  CF
+                  {initials(tutorName)}
                 </div>
                 <div className="flex space-x-1">
                   <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce"></div>
@@ -455,7 +636,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
                   <div className="w-2 h-2 bg-green-400 rounded-full animate-bounce delay-100"></div>
                   <div className="w-2 h-2 bg-green-400 rounded-full animate-bounce delay-200"></div>
                 </div>
-                <span className="text-green-400">Captain Focus is speaking...</span>
+                <span className="text-green-400">{tutorName} is speaking...</span>
               </>
             )}
           </div>
@@ -469,7 +650,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ isVoiceActive, setIsVoice
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
             onKeyDown={handleKeyPress}
-            placeholder={isListening ? "🎤 Listening..." : "Ask Captain Focus anything..."}
+            placeholder={isListening ? "🎤 Listening..." : `Ask ${tutorName} anything...`}
             className="flex-1 bg-white/10 backdrop-blur-md border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 resize-none focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all duration-300"
             rows={2}
             disabled={isListening}
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Layers, Eye, Sparkles } from 'lucide-react';
+import { omnidimensionApi, Flashcard, FlashcardDueSummary } from '../services/omnidimensionApi';
+
+// How often the due-card count is refreshed
+const REFRESH_INTERVAL_MS = 60000;
+
+// SM-2 recall grades offered to the student (0-5 scale on the backend)
+const GRADES = [
+  { grade: 1, label: 'Again', className: 'bg-red-500/20 border-red-400/30 text-red-300 hover:bg-red-500/30' },
+  { grade: 3, label: 'Hard', className: 'bg-yellow-500/20 border-yellow-400/30 text-yellow-300 hover:bg-yellow-500/30' },
+  { grade: 4, label: 'Good', className: 'bg-cyan-500/20 border-cyan-400/30 text-cyan-300 hover:bg-cyan-500/30' },
+  { grade: 5, label: 'Easy', className: 'bg-green-500/20 border-green-400/30 text-green-300 hover:bg-green-500/30' }
+];
+
+const FlashcardReview: React.FC = () => {
+  const [summary, setSummary] = useState<FlashcardDueSummary | null>(null);
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setSummary(await omnidimensionApi.getFlashcardDueSummary());
+    } catch (error) {
+      console.warn('⚠️ Could not load flashcard summary:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+    const interval = setInterval(loadSummary, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadSummary]);
+
+  const startReview = async () => {
+    setIsBusy(true);
+    try {
+      setQueue(await omnidimensionApi.listDueFlashcards());
+      setShowAnswer(false);
+    } catch (error) {
+      console.error('❌ Could not load due flashcards:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const createFromSession = async () => {
+    const sessionId = omnidimensionApi.getCurrentSessionId();
+    if (!sessionId) {
+      setNotice('Chat with Captain Focus first, then turn the session into cards!');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const cards = await omnidimensionApi.createFlashcards(sessionId);
+      setNotice(cards.length > 0 ? `🃏 ${cards.length} new card${cards.length === 1 ? '' : 's'} forged!` : 'No new questions to turn into cards yet.');
+      await loadSummary();
+    } catch (error) {
+      console.error('❌ Could not create flashcards:', error);
+      setNotice('Could not create flashcards right now.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const gradeCard = async (grade: number) => {
+    const [card, ...rest] = queue;
+    if (!card) return;
+
+    setIsBusy(true);
+    try {
+      const reviewed = await omnidimensionApi.reviewFlashcard(card.id, grade);
+      setQueue(rest);
+      setShowAnswer(false);
+      setNotice(`Next review in ${reviewed.intervalDays} day${reviewed.intervalDays === 1 ? '' : 's'}.`);
+      await loadSummary();
+    } catch (error) {
+      console.error('❌ Could not grade flashcard:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const currentCard = queue[0];
+  const dueCount = summary?.dueCount ?? 0;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-xl rounded-3xl border border-purple-500/30 p-6 shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Layers className="w-6 h-6 text-pink-400" />
+          <h2 className="text-2xl font-bold text-white font-poppins">Flashcards</h2>
+        </div>
+        {dueCount > 0 && (
+          <span className="px-3 py-1 bg-pink-500/20 border border-pink-400/30 rounded-full text-xs font-bold text-pink-300">
+            {dueCount} ready
+          </span>
+        )}
+      </div>
+
+      {currentCard ? (
+        <div>
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 mb-4 min-h-[120px]">
+            {currentCard.subject && <div className="text-xs text-purple-300 mb-2">{currentCard.subject}</div>}
+            <p className="text-white font-medium">{currentCard.front}</p>
+            {showAnswer && <p className="text-slate-300 text-sm mt-3 pt-3 border-t border-white/10">{currentCard.back}</p>}
+          </div>
+          {showAnswer ? (
+            <div className="grid grid-cols-4 gap-2">
+              {GRADES.map(({ grade, label, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => gradeCard(grade)}
+                  disabled={isBusy}
+                  className={`px-2 py-2 border rounded-xl text-sm font-bold disabled:opacity-50 transition-colors ${className}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowAnswer(true)}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-white/10 text-white font-bold rounded-xl hover:bg-white/20 transition-colors"
+            >
+              <Eye className="w-4 h-4" />
+              <span>Reveal Answer</span>
+            </button>
+          )}
+          <p className="text-xs text-slate-500 mt-3 text-center">{queue.length} left in this review</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-300">
+            {dueCount > 0
+              ? `${dueCount} card${dueCount === 1 ? '' : 's'} ready for review - time to power up your memory!`
+              : summary?.nextDueAt
+                ? `All caught up! Next card is due ${new Date(summary.nextDueAt).toLocaleString()}.`
+                : 'No cards yet. Finish a session or forge cards from your chat.'}
+          </p>
+          {dueCount > 0 && (
+            <button
+              onClick={startReview}
+              disabled={isBusy}
+              className="w-full px-4 py-2 bg-gradient-to-r from-pink-600 to-purple-600 text-white font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition-opacity"
+            >
+              Start Review
+            </button>
+          )}
+          <button
+            onClick={createFromSession}
+            disabled={isBusy}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-white/10 text-white text-sm font-bold rounded-xl hover:bg-white/20 disabled:opacity-50 transition-colors"
+          >
+            <Sparkles className="w-4 h-4" />
+            <span>Make Cards From This Chat</span>
+          </button>
+        </div>
+      )}
+
+      {notice && <p className="text-xs text-purple-200 mt-3">{notice}</p>}
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Timer, Play, Pause, Square, Coffee } from 'lucide-react';
+import { omnidimensionApi, FocusSession } from '../services/omnidimensionApi';
+
+// How often the timer re-syncs with the backend; it counts down locally in between
+const SYNC_INTERVAL_MS = 15000;
+const WORK_OPTIONS = [15, 25, 45, 60];
+const BREAK_OPTIONS = [5, 10, 15];
+const HISTORY_LIMIT = 5;
+
+function formatClock(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+const FocusTimer: React.FC = () => {
+  const [current, setCurrent] = useState<FocusSession | null>(null);
+  const [history, setHistory] = useState<FocusSession[]>([]);
+  const [totalFocusedMinutes, setTotalFocusedMinutes] = useState(0);
+  const [workMinutes, setWorkMinutes] = useState(25);
+  const [breakMinutes, setBreakMinutes] = useState(5);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFocusSessions = useCallback(async () => {
+    try {
+      const overview = await omnidimensionApi.getFocusSessions();
+      setCurrent(overview.current);
+      setHistory(overview.history.filter(session => session.status === 'completed' || session.status === 'stopped'));
+      setTotalFocusedMinutes(overview.totalFocusedMinutes);
+    } catch (loadError) {
+      console.warn('⚠️ Could not load focus sessions:', loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFocusSessions();
+    const interval = setInterval(loadFocusSessions, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadFocusSessions]);
+
+  // Local countdown between syncs; re-sync when a phase runs out so the backend
+  // can move the session on (and hand out the focus reward)
+  const isRunning = current?.status === 'running';
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const tick = setInterval(() => {
+      setCurrent(session => session && { ...session, phaseRemainingSeconds: Math.max(session.phaseRemainingSeconds - 1, 0) });
+    }, 1000);
+    return () => clearInterval(tick);
+  }, [isRunning]);
+
+  const phaseOver = isRunning && current?.phaseRemainingSeconds === 0;
+  useEffect(() => {
+    if (phaseOver) loadFocusSessions();
+  }, [phaseOver, loadFocusSessions]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadFocusSessions();
+    } catch (actionError) {
+      console.error('❌ Focus timer action failed:', actionError);
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const phaseLength = current ? (current.phase === 'work' ? current.workMinutes : current.breakMinutes) * 60 : 0;
+  const phasePercent = current && phaseLength > 0
+    ? Math.min(100, Math.floor(((phaseLength - current.phaseRemainingSeconds) / phaseLength) * 100))
+    : 0;
+  const onBreak = current?.phase === 'break';
+
+  return (
+    <div className="bg-black/40 backdrop-blur-xl rounded-3xl border border-purple-500/30 p-6 shadow-2xl">
+      <div className="flex items-center space-x-3 mb-6">
+        {onBreak ? <Coffee className="w-6 h-6 text-green-400" /> : <Timer className="w-6 h-6 text-cyan-400" />}
+        <h2 className="text-2xl font-bold text-white font-poppins">Focus Timer</h2>
+      </div>
+
+      {current ? (
+        <div className="text-center">
+          <div className={`text-sm font-bold mb-2 ${onBreak ? 'text-green-300' : 'text-cyan-300'}`}>
+            {onBreak ? 'BREAK TIME - RECHARGE!' : current.status === 'paused' ? 'PAUSED' : 'FOCUS MODE'}
+          </div>
+          <div className="text-5xl font-bold text-white font-mono mb-4">{formatClock(current.phaseRemainingSeconds)}</div>
+          <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden mb-6">
+            <div
+              className={`h-full transition-all duration-1000 ${
+                onBreak ? 'bg-gradient-to-r from-green-400 to-emerald-400' : 'bg-gradient-to-r from-cyan-400 to-purple-400'
+              }`}
+              style={{ width: `${phasePercent}%` }}
+            ></div>
+          </div>
+          <div className="flex justify-center space-x-3">
+            {current.status === 'running' ? (
+              <button
+                onClick={() => runAction(() => omnidimensionApi.updateFocusSession(current.id, 'pause'))}
+                disabled={isBusy}
+                className="flex items-center space-x-1 px-4 py-2 bg-white/10 text-white font-bold rounded-xl hover:bg-white/20 disabled:opacity-50 transition-colors"
+              >
+                <Pause className="w-4 h-4" />
+                <span>Pause</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => runAction(() => omnidimensionApi.updateFocusSession(current.id, 'resume'))}
+                disabled={isBusy}
+                className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition-opacity"
+              >
+                <Play className="w-4 h-4" />
+                <span>Resume</span>
+              </button>
+            )}
+            <button
+              onClick={() => runAction(() => omnidimensionApi.updateFocusSession(current.id, 'stop'))}
+              disabled={isBusy}
+              className="flex items-center space-x-1 px-4 py-2 bg-red-500/20 border border-red-400/30 text-red-300 font-bold rounded-xl hover:bg-red-500/30 disabled:opacity-50 transition-colors"
+            >
+              <Square className="w-4 h-4" />
+              <span>{onBreak ? 'End Break' : 'Stop'}</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <label className="text-sm text-purple-200">
+              Focus
+              <select
+                value={workMinutes}
+                onChange={(e) => setWorkMinutes(Number(e.target.value))}
+                className="mt-1 w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+              >
+                {WORK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes} className="bg-slate-800">{minutes} min</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-purple-200">
+              Break
+              <select
+                value={breakMinutes}
+                onChange={(e) => setBreakMinutes(Number(e.target.value))}
+                className="mt-1 w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+              >
+                {BREAK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes} className="bg-slate-800">{minutes} min</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <button
+            onClick={() => runAction(() => omnidimensionApi.startFocusSession(workMinutes, breakMinutes))}
+            disabled={isBusy}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-purple-600 via-pink-600 to-cyan-600 text-white font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition-opacity"
+          >
+            <Play className="w-5 h-5" />
+            <span>Start Focus Session</span>
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300 mt-4">{error}</p>}
+
+      <div className="mt-6 pt-4 border-t border-white/10">
+        <div className="flex justify-between text-sm text-slate-400 mb-2">
+          <span>Recent sessions</span>
+          <span>{totalFocusedMinutes} min focused</span>
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-slate-500">No focus sessions yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {history.slice(0, HISTORY_LIMIT).map(session => (
+              <li key={session.id} className="flex justify-between text-xs">
+                <span className="text-slate-300">{new Date(session.startedAt).toLocaleString()}</span>
+                <span className={session.status === 'completed' ? 'text-green-300' : 'text-yellow-300'}>
+                  {session.focusedMinutes}/{session.workMinutes} min
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FocusTimer;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { LogIn, UserPlus, Shield } from 'lucide-react';
+import { omnidimensionApi } from '../services/omnidimensionApi';
+
+type Mode = 'login' | 'register';
+
+const LoginPanel: React.FC = () => {
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The app re-renders through onAuthChange once the token is stored
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (mode === 'register') {
+        await omnidimensionApi.register(username, password, displayName);
+      } else {
+        await omnidimensionApi.login(username, password);
+      }
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/10 border border-purple-500/30 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:border-cyan-400';
+
+  return (
+    <section className="mt-12 max-w-md mx-auto bg-black/40 backdrop-blur-xl rounded-3xl border border-purple-500/30 p-8 shadow-2xl">
+      <div className="flex items-center space-x-3 mb-6">
+        <Shield className="w-6 h-6 text-cyan-400" />
+        <h2 className="text-2xl font-bold text-white font-poppins">
+          {mode === 'login' ? 'Welcome Back, Scholar' : 'Join the Crew'}
+        </h2>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="text"
+          value={username}
+          onChange={event => setUsername(event.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          className={inputClass}
+          required
+        />
+        {mode === 'register' && (
+          <input
+            type="text"
+            value={displayName}
+            onChange={event => setDisplayName(event.target.value)}
+            placeholder="Display name (optional)"
+            className={inputClass}
+          />
+        )}
+        <input
+          type="password"
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          placeholder="Password (8+ characters)"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          className={inputClass}
+          required
+        />
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-purple-600 to-cyan-600 rounded-xl text-white font-bold hover:from-purple-500 hover:to-cyan-500 transition-colors disabled:opacity-50"
+        >
+          {mode === 'login' ? <LogIn className="w-5 h-5" /> : <UserPlus className="w-5 h-5" />}
+          <span>{mode === 'login' ? 'Sign In' : 'Create Account'}</span>
+        </button>
+      </form>
+
+      <button
+        onClick={() => {
+          setMode(mode === 'login' ? 'register' : 'login');
+          setError(null);
+        }}
+        className="mt-4 w-full text-sm text-purple-300 hover:text-purple-200"
+      >
+        {mode === 'login' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+      </button>
+    </section>
+  );
+};
+
+export default LoginPanel;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Zap, Trophy, Crown } from 'lucide-react';
+import { omnidimensionApi, UserProgress } from '../services/omnidimensionApi';
+
+// How often the header re-reads XP from the backend
+const REFRESH_INTERVAL_MS = 15000;
+
+const ProgressHud: React.FC = () => {
+  const [progress, setProgress] = useState<UserProgress | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProgress = async () => {
+      try {
+        const latest = await omnidimensionApi.getProgress();
+        if (!cancelled) setProgress(latest);
+      } catch (error) {
+        console.warn('⚠️ Could not load progress:', error);
+      }
+    };
+
+    loadProgress();
+    const interval = setInterval(loadProgress, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return (
+    <div className="hidden md:flex items-center space-x-6">
+      <div className="text-center" title={progress ? `${progress.xpIntoLevel}/${progress.xpForNextLevel} XP to next level` : undefined}>
+        <div className="flex items-center space-x-1 text-cyan-400">
+          <Zap className="w-4 h-4" />
+          <span className="text-sm font-bold">POWER</span>
+        </div>
+        <div className="text-2xl font-bold text-white">{progress ? `${progress.progressPercent}%` : '--'}</div>
+        <div className="w-16 h-1 bg-white/10 rounded-full mt-1 overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-cyan-400 to-purple-400 transition-all duration-500"
+            style={{ width: `${progress?.progressPercent ?? 0}%` }}
+          ></div>
+        </div>
+      </div>
+      <div className="text-center">
+        <div className="flex items-center space-x-1 text-purple-400">
+          <Trophy className="w-4 h-4" />
+          <span className="text-sm font-bold">XP</span>
+        </div>
+        <div className="text-2xl font-bold text-white">{progress ? progress.totalXp : '--'}</div>
+      </div>
+      <div className="text-center" title={progress?.title}>
+        <div className="flex items-center space-x-1 text-yellow-400">
+          <Crown className="w-4 h-4" />
+          <span className="text-sm font-bold">LEVEL</span>
+        </div>
+        <div className="text-2xl font-bold text-white">{progress ? progress.level : '--'}</div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressHud;
@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Scroll, Clock, Trophy, Swords } from 'lucide-react';
+import { omnidimensionApi, Quest } from '../services/omnidimensionApi';
+
+// How often the quest log re-reads quest progress from the backend
+const REFRESH_INTERVAL_MS = 15000;
+
+function formatTimeLeft(dueAt: string): string {
+  const hours = Math.max(0, Math.round((Date.parse(dueAt) - Date.now()) / (60 * 60 * 1000)));
+  return hours >= 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h left` : `${hours}h left`;
+}
+
+const QuestLog: React.FC = () => {
+  const [quests, setQuests] = useState<Quest[]>([]);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  const loadQuests = useCallback(async () => {
+    try {
+      const all = await omnidimensionApi.listQuests();
+      setQuests(all.filter(quest => quest.state === 'active' || quest.state === 'available'));
+    } catch (error) {
+      console.warn('⚠️ Could not load quests:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQuests();
+    const interval = setInterval(loadQuests, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadQuests]);
+
+  const handleAccept = async (questId: string) => {
+    setAcceptingId(questId);
+    try {
+      await omnidimensionApi.acceptQuest(questId);
+      await loadQuests();
+    } catch (error) {
+      console.error('❌ Could not accept quest:', error);
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  return (
+    <section className="mt-12 bg-black/40 backdrop-blur-xl rounded-3xl border border-purple-500/30 p-6 shadow-2xl">
+      <div className="flex items-center space-x-3 mb-6">
+        <Scroll className="w-6 h-6 text-yellow-400" />
+        <h2 className="text-2xl font-bold text-white font-poppins">Quest Log</h2>
+      </div>
+
+      {quests.length === 0 ? (
+        <p className="text-slate-400 font-inter">No open quests right now. Ask Captain Focus about a new topic to unlock one!</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {quests.map(quest => (
+            <div
+              key={quest.id}
+              className={`rounded-2xl border p-4 ${
+                quest.state === 'active'
+                  ? 'bg-purple-500/10 border-purple-400/40'
+                  : 'bg-white/5 border-white/10'
+              }`}
+            >
+              <div className="flex items-start justify-between mb-2">
+                <div>
+                  <h3 className="text-lg font-bold text-white">{quest.title}</h3>
+                  {quest.description && <p className="text-sm text-purple-200">{quest.description}</p>}
+                </div>
+                <span className="flex items-center space-x-1 text-yellow-400 text-sm font-bold whitespace-nowrap">
+                  <Trophy className="w-4 h-4" />
+                  <span>{quest.reward.xp} XP</span>
+                </span>
+              </div>
+
+              <ul className="space-y-2 my-3">
+                {quest.objectives.map(objective => (
+                  <li key={objective.id}>
+                    <div className="flex justify-between text-sm text-slate-300">
+                      <span>{objective.description}</span>
+                      <span>{objective.current}/{objective.target}</span>
+                    </div>
+                    <div className="w-full h-1.5 bg-white/10 rounded-full mt-1 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-cyan-400 to-purple-400 transition-all duration-500"
+                        style={{ width: `${Math.floor((objective.current / objective.target) * 100)}%` }}
+                      ></div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex items-center justify-between">
+                <span className="flex items-center space-x-1 text-xs text-slate-400">
+                  <Clock className="w-3 h-3" />
+                  <span>{formatTimeLeft(quest.dueAt)}</span>
+                </span>
+                {quest.state === 'available' ? (
+                  <button
+                    onClick={() => handleAccept(quest.id)}
+                    disabled={acceptingId === quest.id}
+                    className="flex items-center space-x-1 px-3 py-1 bg-gradient-to-r from-purple-600 to-pink-600 text-white text-sm font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition-opacity"
+                  >
+                    <Swords className="w-4 h-4" />
+                    <span>Accept</span>
+                  </button>
+                ) : (
+                  <span className="text-xs font-bold text-green-300">IN PROGRESS</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default QuestLog;
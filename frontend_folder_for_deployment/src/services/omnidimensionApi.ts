@@ -1,3 +1,5 @@
+import { Mood } from '../../../shared/emotion';
+
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -6,27 +8,366 @@ interface ChatMessage {
 interface BackendChatResponse {
   response: string;
   agentId?: string;
+  sessionId?: string;
+  // True when the answer was reused from the backend's answer cache
+  cached?: boolean;
   timestamp: string;
   status: string;
 }
 
-interface BackendHealthResponse {
-  status: string;
+export interface SessionMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  mode?: LearningMode;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  subject: string;
+  status: 'active' | 'paused' | 'completed';
+  channel: 'chat' | 'voice';
+  personaId?: string;
+  messageCount: number;
+  lastMessagePreview?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationSession {
+  id: string;
+  userId: string;
+  title: string;
+  subject: string;
+  status: 'active' | 'paused' | 'completed';
+  channel?: 'chat' | 'voice';
+  personaId?: string;
+  messages: SessionMessage[];
+  // Older turns the backend has folded into a summary to keep the history in budget
+  historySummary?: { text: string; coveredMessages: number; tokens: number; updatedAt: string };
+  createdAt: string;
+  updatedAt: string;
+  lastResumedAt?: string;
+}
+
+export interface XpEntry {
+  amount: number;
+  reason: string;
+  eventType?: string;
+  awardedAt: string;
+}
+
+export interface UserProgress {
+  userId: string;
+  level: number;
+  title: string;
+  totalXp: number;
+  xpIntoLevel: number;
+  xpForNextLevel: number;
+  progressPercent: number;
+  recentXp: XpEntry[];
+  updatedAt?: string;
+}
+
+export interface AchievementStatus {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  xpReward: number;
+  unlocked: boolean;
+  unlockedAt?: string;
+  progress: {
+    current: number;
+    target: number;
+    percent: number;
+  };
+}
+
+export type QuestState = 'available' | 'active' | 'completed' | 'expired';
+
+export interface QuestObjective {
+  id: string;
+  type: 'ask_questions' | 'focus_session' | 'complete_sessions' | 'quiz_correct';
+  description: string;
+  target: number;
+  current: number;
+  topic?: string;
+  minMinutes?: number;
+}
+
+export interface Quest {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  objectives: QuestObjective[];
+  reward: { xp: number };
+  state: QuestState;
+  dueAt: string;
+  createdAt: string;
+  acceptedAt?: string;
+  completedAt?: string;
+  expiredAt?: string;
+}
+
+export interface FocusSession {
+  id: string;
+  userId: string;
+  chatSessionId?: string;
+  workMinutes: number;
+  breakMinutes: number;
+  status: 'running' | 'paused' | 'completed' | 'stopped';
+  phase: 'work' | 'break' | 'done';
+  elapsedSeconds: number;
+  phaseRemainingSeconds: number;
+  focusedMinutes: number;
+  startedAt: string;
+  pausedAt?: string;
+  workCompletedAt?: string;
+  endedAt?: string;
+}
+
+export interface FocusOverview {
+  current: FocusSession | null;
+  history: FocusSession[];
+  totalFocusedMinutes: number;
+}
+
+export interface Flashcard {
+  id: string;
+  userId: string;
+  sessionId: string;
+  front: string;
+  back: string;
+  subject?: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  createdAt: string;
+  lastReviewedAt?: string;
+  lastGrade?: number;
+}
+
+export interface FlashcardDueSummary {
+  dueCount: number;
+  totalCount: number;
+  nextDueAt?: string;
+}
+
+export type QuizDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface QuestionResult {
+  questionId: string;
+  answer: string;
+  correct: boolean;
+  score: number;
+  feedback: string;
+  correctAnswer: string;
+  explanation?: string;
+  answeredAt: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: 'multiple_choice' | 'short_answer';
+  prompt: string;
+  choices?: string[];
+  result?: QuestionResult;
+}
+
+export interface Quiz {
+  id: string;
+  topic: string;
+  subject: string;
+  difficulty: QuizDifficulty;
+  source: 'generated' | 'bank';
+  status: 'in_progress' | 'completed';
+  questions: QuizQuestion[];
+  progress: { answered: number; correct: number; total: number };
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type DayPart = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface MoodDay {
+  date: string;
+  counts: Record<Mood, number>;
+  dominant: Mood;
+  samples: number;
+}
+
+export interface MoodPatternCell {
+  weekday: number;
+  dayPart: DayPart;
+  counts: Record<Mood, number>;
+  dominant: Mood;
+  samples: number;
+}
+
+export interface DifficultyTrend {
+  subject: string;
+  samples: number;
+  averageLevel: number;
+  latest: QuizDifficulty;
+  trend: 'rising' | 'steady' | 'falling';
+  averageScore?: number;
+}
+
+export interface UserAnalytics {
+  userId: string;
+  range: { from: string; to: string; days: number };
+  mood: {
+    totals: Record<Mood, number>;
+    timeline: MoodDay[];
+    patterns: MoodPatternCell[];
+    insights: string[];
+  };
+  subjects: { totalMinutes: number; breakdown: Array<{ subject: string; minutes: number }> };
+  learningModes: Array<{ mode: string; count: number; percent: number }>;
+  difficulty: {
+    bySubject: DifficultyTrend[];
+    timeline: Array<{ date: string; averageLevel: number; samples: number }>;
+  };
+}
+
+export interface SkillLevel {
+  subject: string;
+  level: QuizDifficulty;
+  // 0 (just starting out) to 1 (advanced)
+  score: number;
+  trend: 'rising' | 'steady' | 'falling';
+  signals: number;
+  updatedAt: string;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: 'student' | 'admin';
+}
+
+export interface PersonaSection {
+  title: string;
+  body: string;
+  enabled: boolean;
+}
+
+export interface Persona {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  intro: string;
+  welcomeMessage: string;
+  sections: PersonaSection[];
+  model: { name: string; temperature: number; maxTokens: number };
+  voice: { provider: string; voiceId: string; stability: number; similarityBoost: number };
+  // Browser speech synthesis settings; voiceHints are matched against voice names
+  speech: { pitch: number; rate: number; voiceHints: string[] };
+  transcriber: { provider: string; model: string; silenceTimeoutMs: number };
+  extractedVariables: Array<{ key: string; prompt: string }>;
+  createdAt: string;
+  createdBy?: string;
+  systemPrompt: string;
+}
+
+export type LearningMode = 'deep_dive' | 'quick_revision' | 'just_curious' | 'homework_help';
+
+export interface LearningModeInfo {
+  id: LearningMode;
+  label: string;
+  emoji: string;
+  description: string;
+  maxTokens: number;
+}
+
+export interface StreamHandlers {
+  onStart?: (info: { agentId?: string; personaId?: string; mode?: LearningMode | null; sessionId?: string }) => void;
+  onDelta: (text: string) => void;
+  onDone?: (response: string) => void;
+}
+
+// Thrown for 429s so the UI can tell "wait a bit" apart from "the backend is down"
+export class RateLimitError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+// Prefer the Retry-After header, falling back to the retryAfter field in the body
+function toRateLimitError(response: Response, data: { retryAfter?: number; limit?: string }): RateLimitError {
+  const seconds = Number(response.headers.get('Retry-After')) || data.retryAfter || 60;
+  const reason = data.limit?.endsWith('-daily') ? 'Daily message limit reached.' : 'Too many requests.';
+  return new RateLimitError(`${reason} Please try again in ${formatWait(seconds)}.`, seconds);
+}
+
+const AUTH_STORAGE_KEY = 'captainFocusAuth';
+const PERSONA_STORAGE_KEY = 'captainFocusPersona';
+const LEARNING_MODE_STORAGE_KEY = 'captainFocusLearningMode';
+const DEFAULT_PERSONA_ID = 'captain-focus';
+
+interface StoredAuth {
+  token: string;
+  user: AuthUser;
+  expiresAt: string;
+}
+
+export type DependencyStatus = 'up' | 'degraded' | 'down' | 'unknown';
+
+export interface DependencyHealth {
+  name: 'omnidimension' | 'storage' | 'fallback_provider';
+  status: DependencyStatus;
+  latencyMs?: number;
+  lastCheckedAt?: string;
+  lastSuccessAt?: string;
+  lastError?: { message: string; at: string };
+  details?: Record<string, unknown>;
+}
+
+export interface BackendHealthResponse {
+  status: 'healthy' | 'degraded' | 'unhealthy';
   service: string;
-  agentId?: string | null;
-  agentInitialized?: boolean;
-  omnidimensionApiHealth?: boolean;
+  message: string;
+  // False when the backend cannot serve students (it then answers 503)
+  ready: boolean;
+  uptimeSeconds: number;
+  dependencies: DependencyHealth[];
+  checkedAt?: string;
   timestamp: string;
   environment?: {
     nodeEnv: string;
-    hasApiKey?: boolean;
     nodeVersion: string;
     port: number;
+    omnidimensionApiKey: 'configured' | 'missing';
   };
 }
 
 class OmnidimensionAPI {
   private backendUrl: string;
+  private auth: StoredAuth | null;
+  private sessionId: string | null = null;
+  private personaId: string = DEFAULT_PERSONA_ID;
+  private learningMode: LearningMode | null = null;
+  private authListeners: Array<(user: AuthUser | null) => void> = [];
 
   constructor() {
     // Use the deployed backend URL for production
@@ -45,19 +386,111 @@ class OmnidimensionAPI {
       this.backendUrl = 'https://captain-focus.onrender.com';
     }
 
+    this.auth = this.loadAuth();
+    if (typeof window !== 'undefined') {
+      this.personaId = localStorage.getItem(PERSONA_STORAGE_KEY) ?? DEFAULT_PERSONA_ID;
+      this.learningMode = localStorage.getItem(LEARNING_MODE_STORAGE_KEY) as LearningMode | null;
+    }
+
     console.log('🔗 Backend URL configured:', this.backendUrl);
   }
 
-  async sendMessage(messages: ChatMessage[]): Promise<string> {
+  // Keep the sign-in across reloads until the token expires
+  private loadAuth(): StoredAuth | null {
+    if (typeof window === 'undefined') return null;
+
     try {
-      // Extract conversation history (exclude system message)
-      const conversationHistory = messages
-        .filter(msg => msg.role !== 'system')
-        .map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        }));
+      const saved = JSON.parse(localStorage.getItem(AUTH_STORAGE_KEY) ?? 'null') as StoredAuth | null;
+      return saved && Date.parse(saved.expiresAt) > Date.now() ? saved : null;
+    } catch {
+      return null;
+    }
+  }
 
+  private setAuth(auth: StoredAuth | null): void {
+    this.auth = auth;
+    this.sessionId = null;
+    if (auth) {
+      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(auth));
+    } else {
+      localStorage.removeItem(AUTH_STORAGE_KEY);
+    }
+    this.authListeners.forEach(listener => listener(auth?.user ?? null));
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.auth ? { Authorization: `Bearer ${this.auth.token}` } : {};
+  }
+
+  // A rejected token means the sign-in is over; drop it so the app asks again
+  private handleUnauthorized(response: Response): void {
+    if (response.status === 401 && this.auth) {
+      console.warn('🔒 Sign-in expired, please sign in again');
+      this.setAuth(null);
+    }
+  }
+
+  private get userId(): string {
+    return this.auth?.user.id ?? '';
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.backendUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.authHeaders(),
+        ...init.headers,
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      this.handleUnauthorized(response);
+      if (response.status === 429) throw toRateLimitError(response, data);
+      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return data as T;
+  }
+
+  // Accounts
+  async register(username: string, password: string, displayName?: string): Promise<AuthUser> {
+    const data = await this.request<StoredAuth>('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ username, password, displayName: displayName || undefined }),
+    });
+    this.setAuth({ token: data.token, user: data.user, expiresAt: data.expiresAt });
+    return data.user;
+  }
+
+  async login(username: string, password: string): Promise<AuthUser> {
+    const data = await this.request<StoredAuth>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    });
+    this.setAuth({ token: data.token, user: data.user, expiresAt: data.expiresAt });
+    return data.user;
+  }
+
+  logout(): void {
+    this.setAuth(null);
+  }
+
+  getCurrentUser(): AuthUser | null {
+    return this.auth?.user ?? null;
+  }
+
+  // Subscribe to sign-in and sign-out; returns an unsubscribe function
+  onAuthChange(listener: (user: AuthUser | null) => void): () => void {
+    this.authListeners.push(listener);
+    return () => {
+      this.authListeners = this.authListeners.filter(candidate => candidate !== listener);
+    };
+  }
+
+  async sendMessage(messages: ChatMessage[]): Promise<string> {
+    try {
+      // Only the latest message is sent; the backend keeps the history in the session
       // Get the latest user message
       const latestMessage = messages[messages.length - 1];
       if (latestMessage.role !== 'user') {
@@ -70,14 +503,20 @@ class OmnidimensionAPI {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...this.authHeaders(),
         },
         body: JSON.stringify({
           message: latestMessage.content,
-          conversationHistory: conversationHistory.slice(0, -1) // Exclude the latest message
+          sessionId: this.sessionId ?? undefined,
+          personaId: this.personaId,
+          mode: this.learningMode ?? undefined,
+          // Lets the backend place the message in the student's local day and hour
+          tzOffset: new Date().getTimezoneOffset()
         }),
       });
 
       if (!response.ok) {
+        this.handleUnauthorized(response);
         const errorData = await response.json().catch(() => ({}));
         const errorMessage = errorData.error || `HTTP ${response.status}: ${response.statusText}`;
         
@@ -87,7 +526,7 @@ class OmnidimensionAPI {
         } else if (response.status === 500) {
           throw new Error(`Server error: ${errorMessage}`);
         } else if (response.status === 429) {
-          throw new Error('Too many requests. Please wait a moment and try again.');
+          throw toRateLimitError(response, errorData);
         } else {
           throw new Error(`Backend request failed: ${errorMessage}`);
         }
@@ -99,6 +538,10 @@ class OmnidimensionAPI {
         throw new Error('Invalid response from backend: missing response text');
       }
 
+      if (data.sessionId) {
+        this.sessionId = data.sessionId;
+      }
+
       console.log('📥 Received response from backend');
       return data.response;
     } catch (error) {
@@ -113,6 +556,86 @@ class OmnidimensionAPI {
     }
   }
 
+  // Stream a reply over Server-Sent Events; resolves with the full text once the
+  // backend sends its done frame, rejects if it sends an error frame.
+  async streamMessage(message: string, handlers: StreamHandlers, signal?: AbortSignal): Promise<string> {
+    try {
+      console.log('📡 Streaming message to backend:', message.substring(0, 50) + '...');
+
+      const response = await fetch(`${this.backendUrl}/api/agent/chat/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...this.authHeaders(),
+        },
+        body: JSON.stringify({
+          message,
+          sessionId: this.sessionId ?? undefined,
+          personaId: this.personaId,
+          mode: this.learningMode ?? undefined,
+          tzOffset: new Date().getTimezoneOffset()
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        this.handleUnauthorized(response);
+        const errorData = await response.json().catch(() => ({}));
+        if (response.status === 429) {
+          throw toRateLimitError(response, errorData);
+        }
+        throw new Error(errorData.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let fullText = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Frames are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const frame = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          const event = frame.match(/^event: (.*)$/m)?.[1];
+          const dataLine = frame.match(/^data: (.*)$/m)?.[1];
+          if (!event || !dataLine) continue;
+          const data = JSON.parse(dataLine);
+
+          if (event === 'start') {
+            if (data.sessionId) this.sessionId = data.sessionId;
+            handlers.onStart?.(data);
+          } else if (event === 'delta') {
+            fullText += data.text;
+            handlers.onDelta(data.text);
+          } else if (event === 'done') {
+            handlers.onDone?.(data.response);
+            return data.response;
+          } else if (event === 'error') {
+            throw new Error(data.message || data.error);
+          }
+        }
+      }
+
+      return fullText;
+    } catch (error) {
+      console.error('❌ Backend stream error:', error);
+
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        throw new Error('Cannot connect to backend server. Please ensure the backend service is running and accessible.');
+      }
+
+      throw error;
+    }
+  }
+
   // Check if backend is healthy
   async checkHealth(): Promise<BackendHealthResponse | null> {
     try {
@@ -125,14 +648,23 @@ class OmnidimensionAPI {
         },
       });
 
-      if (!response.ok) {
+      // A 503 still carries the report, listing which dependency is down
+      if (!response.ok && response.status !== 503) {
         console.warn(`⚠️ Health check failed with status: ${response.status}`);
         return null;
       }
 
       const healthData: BackendHealthResponse = await response.json();
-      console.log('✅ Backend health check passed:', healthData.status);
-      
+      const unavailable = healthData.dependencies
+        .filter(dependency => dependency.status !== 'up')
+        .map(dependency => `${dependency.name} ${dependency.status}`);
+
+      if (healthData.ready) {
+        console.log('✅ Backend health check passed:', healthData.status, unavailable.length > 0 ? `(${unavailable.join(', ')})` : '');
+      } else {
+        console.warn('⚠️ Backend is not ready:', unavailable.join(', '));
+      }
+
       return healthData;
     } catch (error) {
       console.error('❌ Health check failed:', error);
@@ -140,6 +672,227 @@ class OmnidimensionAPI {
     }
   }
 
+  // Conversation sessions
+  async createSession(title?: string, subject?: string): Promise<ConversationSession> {
+    const data = await this.request<{ session: ConversationSession }>('/api/sessions', {
+      method: 'POST',
+      body: JSON.stringify({ title, subject, personaId: this.personaId }),
+    });
+    this.sessionId = data.session.id;
+    return data.session;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const data = await this.request<{ sessions: SessionSummary[] }>(
+      '/api/sessions'
+    );
+    return data.sessions;
+  }
+
+  async getSession(sessionId: string): Promise<ConversationSession> {
+    const data = await this.request<{ session: ConversationSession }>(
+      `/api/sessions/${sessionId}`
+    );
+    return data.session;
+  }
+
+  async renameSession(sessionId: string, title: string): Promise<SessionSummary> {
+    const data = await this.request<{ session: SessionSummary }>(`/api/sessions/${sessionId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    });
+    return data.session;
+  }
+
+  async resumeSession(sessionId: string): Promise<ConversationSession> {
+    const data = await this.request<{ session: ConversationSession }>(`/api/sessions/${sessionId}/resume`, {
+      method: 'POST',
+    });
+    this.sessionId = data.session.id;
+    // Carry on with the tutor the session was held with
+    if (data.session.personaId) this.setPersonaId(data.session.personaId);
+    return data.session;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.request(`/api/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+    if (this.sessionId === sessionId) {
+      this.sessionId = null;
+    }
+  }
+
+  async completeSession(sessionId: string): Promise<UserProgress | undefined> {
+    const data = await this.request<{ progress?: UserProgress }>(`/api/sessions/${sessionId}/complete`, {
+      method: 'POST',
+    });
+    if (this.sessionId === sessionId) {
+      this.sessionId = null;
+    }
+    return data.progress;
+  }
+
+  // XP and level
+  async getProgress(): Promise<UserProgress> {
+    const data = await this.request<{ progress: UserProgress }>(
+      `/api/progress/${encodeURIComponent(this.userId)}`
+    );
+    return data.progress;
+  }
+
+  async getAchievements(): Promise<AchievementStatus[]> {
+    const data = await this.request<{ achievements: AchievementStatus[] }>(
+      `/api/achievements/${encodeURIComponent(this.userId)}`
+    );
+    return data.achievements;
+  }
+
+  // Quests
+  async listQuests(state?: QuestState): Promise<Quest[]> {
+    const query = state ? `?state=${state}` : '';
+    const data = await this.request<{ quests: Quest[] }>(
+      `/api/quests/${encodeURIComponent(this.userId)}${query}`
+    );
+    return data.quests;
+  }
+
+  async acceptQuest(questId: string): Promise<Quest> {
+    const data = await this.request<{ quest: Quest }>(`/api/quests/${questId}/accept`, {
+      method: 'POST',
+    });
+    return data.quest;
+  }
+
+  // Focus sessions
+  async getFocusSessions(): Promise<FocusOverview> {
+    return this.request<FocusOverview>('/api/focus-sessions');
+  }
+
+  async startFocusSession(workMinutes: number, breakMinutes: number): Promise<FocusSession> {
+    const data = await this.request<{ focusSession: FocusSession }>('/api/focus-sessions', {
+      method: 'POST',
+      body: JSON.stringify({
+        workMinutes,
+        breakMinutes,
+        chatSessionId: this.sessionId ?? undefined
+      }),
+    });
+    return data.focusSession;
+  }
+
+  async updateFocusSession(focusSessionId: string, action: 'pause' | 'resume' | 'stop'): Promise<FocusSession> {
+    const data = await this.request<{ focusSession: FocusSession }>(`/api/focus-sessions/${focusSessionId}/${action}`, {
+      method: 'POST',
+    });
+    return data.focusSession;
+  }
+
+  // Flashcards
+  async createFlashcards(sessionId: string): Promise<Flashcard[]> {
+    const data = await this.request<{ cards: Flashcard[] }>(`/api/sessions/${sessionId}/flashcards`, {
+      method: 'POST',
+    });
+    return data.cards;
+  }
+
+  async listDueFlashcards(): Promise<Flashcard[]> {
+    const data = await this.request<{ cards: Flashcard[] }>(
+      `/api/flashcards/${encodeURIComponent(this.userId)}?due=true`
+    );
+    return data.cards;
+  }
+
+  async getFlashcardDueSummary(): Promise<FlashcardDueSummary> {
+    return this.request<FlashcardDueSummary>(`/api/flashcards/${encodeURIComponent(this.userId)}/due`);
+  }
+
+  async reviewFlashcard(cardId: string, grade: number): Promise<Flashcard> {
+    const data = await this.request<{ card: Flashcard }>(`/api/flashcards/${cardId}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ grade }),
+    });
+    return data.card;
+  }
+
+  // Boss Battle quizzes
+  async createQuiz(topic: string, difficulty: QuizDifficulty, count?: number): Promise<Quiz> {
+    const data = await this.request<{ quiz: Quiz }>('/api/quizzes', {
+      method: 'POST',
+      body: JSON.stringify({ topic, difficulty, count }),
+    });
+    return data.quiz;
+  }
+
+  async answerQuiz(quizId: string, answers: Array<{ questionId: string; answer: string }>): Promise<{ results: QuestionResult[]; quiz: Quiz }> {
+    return this.request<{ results: QuestionResult[]; quiz: Quiz }>(`/api/quizzes/${quizId}/answers`, {
+      method: 'POST',
+      body: JSON.stringify({ answers }),
+    });
+  }
+
+  // Weekdays and times of day are bucketed on the student's own clock
+  async getAnalytics(days = 30): Promise<UserAnalytics> {
+    const query = new URLSearchParams({ days: String(days), tzOffset: String(new Date().getTimezoneOffset()) });
+    const data = await this.request<{ analytics: UserAnalytics }>(`/api/analytics/${encodeURIComponent(this.userId)}?${query}`);
+    return data.analytics;
+  }
+
+  async getSkillLevels(): Promise<SkillLevel[]> {
+    const data = await this.request<{ skills: SkillLevel[] }>(`/api/skills/${encodeURIComponent(this.userId)}`);
+    return data.skills;
+  }
+
+  // Personas
+  async getPersonas(): Promise<Persona[]> {
+    const data = await this.request<{ personas: Persona[] }>('/api/personas');
+    return data.personas;
+  }
+
+  getPersonaId(): string {
+    return this.personaId;
+  }
+
+  // The tutor the next messages go to; the backend keeps one agent per persona
+  setPersonaId(personaId: string): void {
+    this.personaId = personaId;
+    localStorage.setItem(PERSONA_STORAGE_KEY, personaId);
+  }
+
+  async getPersona(personaId: string, version?: number): Promise<Persona> {
+    const query = version === undefined ? '' : `?version=${version}`;
+    const data = await this.request<{ persona: Persona }>(`/api/personas/${encodeURIComponent(personaId)}${query}`);
+    return data.persona;
+  }
+
+  // Learning modes
+  async getLearningModes(): Promise<LearningModeInfo[]> {
+    const data = await this.request<{ modes: LearningModeInfo[] }>('/api/learning-modes');
+    return data.modes;
+  }
+
+  getLearningMode(): LearningMode | null {
+    return this.learningMode;
+  }
+
+  // The mode the next messages are asked in; null lets the persona decide
+  setLearningMode(mode: LearningMode | null): void {
+    this.learningMode = mode;
+    if (mode) {
+      localStorage.setItem(LEARNING_MODE_STORAGE_KEY, mode);
+    } else {
+      localStorage.removeItem(LEARNING_MODE_STORAGE_KEY);
+    }
+  }
+
+  getCurrentSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  getUserId(): string {
+    return this.userId;
+  }
+
   // Get backend URL for debugging
   getBackendUrl(): string {
     return this.backendUrl;
@@ -151,33 +904,14 @@ class OmnidimensionAPI {
     console.log('🔗 Backend URL updated:', this.backendUrl);
   }
 
-  // Method to get Captain Focus system prompt
-  getSystemPrompt(): string {
-    return `You are Captain Focus, a voice-based AI study companion designed for students. Your mission is to help students stay motivated and understand complex topics through gamified, emotionally adaptive responses.
-
-🎮 Your Personality:
-- Enthusiastic, warm, and encouraging
-- Use gaming metaphors naturally (quests, XP, achievements, boss battles)
-- Celebrate every learning moment with excitement
-- Adapt your energy to match the student's mood
-- Always supportive and patient
-
-🎯 Your Mission:
-- Turn study sessions into epic learning adventures
-- Break down complex topics with fun analogies
-- Reward curiosity and effort with gaming language
-- Keep responses concise but engaging (2-3 sentences max for voice)
-- Always end with encouragement or next steps
-
-🗣️ Communication Style:
-- Conversational and upbeat
-- Use emojis and gaming terms naturally
-- Match the student's energy level
-- Provide clear, actionable guidance
-- Make every student feel capable and supported
-
-Remember: You're not just teaching - you're guiding heroes on their learning quest! ⚔️✨`;
+  // Captain Focus system prompt, rendered by the backend from the same persona the
+  // voice agent and fallback providers use
+  async getSystemPrompt(personaId = DEFAULT_PERSONA_ID): Promise<string> {
+    return (await this.getPersona(personaId)).systemPrompt;
   }
 }
 
+// Shared instance so every component talks to the same session
+export const omnidimensionApi = new OmnidimensionAPI();
+
 export default OmnidimensionAPI;
\ No newline at end of file
@@ -7,4 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    fs: {
+      // The emotion classifier in ../shared is used by both the app and the backend
+      allow: ['..'],
+    },
+  },
 });
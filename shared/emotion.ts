@@ -0,0 +1,274 @@
+// Lexicon-based emotion classifier shared by the React app and the backend.
+// Dependency-free on purpose: it runs in the browser, under tsx and in Node.
+
+export type Mood = 'happy' | 'confused' | 'tired' | 'frustrated' | 'excited' | 'neutral';
+
+export const MOODS: Mood[] = ['happy', 'confused', 'tired', 'frustrated', 'excited', 'neutral'];
+
+// The labels Omnidimension's user_emotion extraction uses
+export const MOOD_LABELS: Record<Mood, string> = {
+  happy: 'Happy',
+  confused: 'Confused',
+  tired: 'Tired',
+  frustrated: 'Frustrated',
+  excited: 'Excited',
+  neutral: 'Neutral'
+};
+
+export interface EmotionResult {
+  mood: Mood;
+  // Share of the total evidence behind the winning mood, 0-1
+  confidence: number;
+  // Normalized scores for every mood, summing to (roughly) 1
+  scores: Record<Mood, number>;
+}
+
+type Weights = Partial<Record<Mood, number>>;
+
+// Multi-word cues are matched before single words so "don't get it" never reads as "get it"
+const PHRASES: Array<[string[], Weights]> = [
+  [["don't", 'understand'], { confused: 2 }],
+  [["doesn't", 'make', 'sense'], { confused: 2 }],
+  [['makes', 'no', 'sense'], { confused: 2 }],
+  [["don't", 'get', 'it'], { confused: 2 }],
+  [['no', 'idea'], { confused: 1.5 }],
+  [['lost', 'me'], { confused: 1.5 }],
+  [['what', 'does', 'that', 'mean'], { confused: 1.5 }],
+  [['give', 'up'], { frustrated: 2, tired: 0.5 }],
+  [['fed', 'up'], { frustrated: 2 }],
+  [['sick', 'of'], { frustrated: 1.5 }],
+  [['had', 'enough'], { frustrated: 1.5 }],
+  [['burnt', 'out'], { tired: 2 }],
+  [['burned', 'out'], { tired: 2 }],
+  [['worn', 'out'], { tired: 2 }],
+  [['no', 'energy'], { tired: 1.5 }],
+  [['got', 'it'], { happy: 1.5 }],
+  [['makes', 'sense'], { happy: 1.5 }],
+  [['thank', 'you'], { happy: 1 }],
+  [["can't", 'wait'], { excited: 2 }],
+  [["let's", 'go'], { excited: 1.5 }],
+  [['bring', 'it', 'on'], { excited: 1.5 }]
+];
+
+const WORDS: Record<string, Weights> = {
+  // Happy
+  happy: { happy: 1.5 },
+  glad: { happy: 1 },
+  good: { happy: 1 },
+  great: { happy: 1.5 },
+  nice: { happy: 1 },
+  cool: { happy: 0.75 },
+  thanks: { happy: 1 },
+  thank: { happy: 0.75 },
+  helpful: { happy: 1 },
+  understand: { happy: 0.75 },
+  clear: { happy: 0.75 },
+  easy: { happy: 0.75 },
+  love: { happy: 1.5, excited: 0.5 },
+  enjoy: { happy: 1 },
+  fun: { happy: 1, excited: 0.5 },
+  proud: { happy: 1.5 },
+  relieved: { happy: 1 },
+  // Excited
+  excited: { excited: 2 },
+  awesome: { excited: 1.5, happy: 0.5 },
+  amazing: { excited: 1.5, happy: 0.5 },
+  incredible: { excited: 1.5 },
+  fascinating: { excited: 1.5 },
+  wow: { excited: 1.5 },
+  yay: { excited: 1.5, happy: 0.5 },
+  woohoo: { excited: 2 },
+  pumped: { excited: 2 },
+  hyped: { excited: 2 },
+  eager: { excited: 1.5 },
+  ready: { excited: 0.75 },
+  curious: { excited: 1 },
+  // Confused
+  confused: { confused: 2 },
+  confusing: { confused: 2 },
+  unclear: { confused: 1.5 },
+  lost: { confused: 1.5 },
+  stuck: { confused: 1.5, frustrated: 0.5 },
+  puzzled: { confused: 1.5 },
+  huh: { confused: 1.5 },
+  unsure: { confused: 1 },
+  why: { confused: 0.5 },
+  how: { confused: 0.25 },
+  help: { confused: 0.75 },
+  hard: { confused: 1, frustrated: 0.5 },
+  difficult: { confused: 1, frustrated: 0.5 },
+  complicated: { confused: 1.5 },
+  // Tired
+  tired: { tired: 2 },
+  exhausted: { tired: 2 },
+  sleepy: { tired: 2 },
+  drained: { tired: 2 },
+  bored: { tired: 1.5 },
+  boring: { tired: 1.5 },
+  overwhelmed: { tired: 1.5, frustrated: 0.5 },
+  yawn: { tired: 1.5 },
+  late: { tired: 0.5 },
+  sleep: { tired: 1 },
+  // Frustrated
+  frustrated: { frustrated: 2 },
+  frustrating: { frustrated: 2 },
+  annoyed: { frustrated: 2 },
+  annoying: { frustrated: 1.5 },
+  angry: { frustrated: 2 },
+  mad: { frustrated: 1.5 },
+  hate: { frustrated: 2 },
+  ugh: { frustrated: 2 },
+  argh: { frustrated: 2 },
+  useless: { frustrated: 1.5 },
+  pointless: { frustrated: 1.5 },
+  stupid: { frustrated: 1.5 },
+  impossible: { frustrated: 1.5, confused: 0.5 },
+  again: { frustrated: 0.25 },
+  wrong: { frustrated: 1 },
+  failed: { frustrated: 1.5 },
+  bad: { frustrated: 1 }
+};
+
+const EMOJI: Record<string, Weights> = {
+  '😊': { happy: 2 }, '🙂': { happy: 1.5 }, '😄': { happy: 2 }, '😁': { happy: 2 }, '😀': { happy: 2 },
+  '👍': { happy: 1.5 }, '❤️': { happy: 1.5 }, '💙': { happy: 1.5 },
+  '🤩': { excited: 2 }, '🎉': { excited: 2 }, '🔥': { excited: 1.5 }, '🚀': { excited: 1.5 }, '🥳': { excited: 2 },
+  '😕': { confused: 2 }, '🤔': { confused: 1.5 }, '😵': { confused: 2 }, '😵‍💫': { confused: 2 }, '❓': { confused: 1.5 },
+  '😴': { tired: 2 }, '🥱': { tired: 2 }, '💤': { tired: 2 }, '😪': { tired: 2 },
+  '😤': { frustrated: 2 }, '😡': { frustrated: 2 }, '😠': { frustrated: 2 }, '🤬': { frustrated: 2 },
+  '😩': { frustrated: 1.5, tired: 1 }, '😫': { frustrated: 1.5, tired: 1 }, '😭': { frustrated: 1.5 }
+};
+
+// ASCII emoticons, matched on the raw text before tokenizing
+const EMOTICONS: Array<[RegExp, Weights]> = [
+  [/(^|\s)[:;]-?[)D](?=\s|$)/g, { happy: 1.5 }],
+  [/(^|\s):-?\/(?=\s|$)/g, { confused: 1.5 }],
+  [/(^|\s):-?\((?=\s|$)/g, { frustrated: 1.5 }]
+];
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'hardly', 'barely', 'without', 'isnt', "isn't", 'dont', "don't",
+  'doesnt', "doesn't", 'didnt', "didn't", 'cant', "can't", 'cannot', 'wont', "won't", 'aint', "ain't",
+  'wasnt', "wasn't", 'arent', "aren't", 'neither', 'nor'
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.5, so: 1.4, super: 1.6, totally: 1.5, completely: 1.6, absolutely: 1.6,
+  extremely: 2, incredibly: 1.8, too: 1.3, utterly: 1.8, literally: 1.3,
+  slightly: 0.5, somewhat: 0.6, kinda: 0.6, kind: 0.6, sorta: 0.6, bit: 0.6, little: 0.6, mildly: 0.5
+};
+
+// A negated cue loses its own mood and leans towards the opposite one
+const NEGATION_SHIFT: Record<Mood, Mood> = {
+  happy: 'frustrated',
+  excited: 'tired',
+  confused: 'happy',
+  tired: 'excited',
+  frustrated: 'happy',
+  neutral: 'neutral'
+};
+const NEGATION_SHIFT_RATIO = 0.75;
+// How many tokens back a negator or intensifier still applies
+const MODIFIER_WINDOW = 3;
+// Words after "but" carry more weight than the ones before it
+const CONTRAST_BEFORE = 0.5;
+const CONTRAST_AFTER = 1.5;
+// Everyone starts slightly neutral, so weak cues don't flip the mood on their own
+const NEUTRAL_BASELINE = 0.75;
+const SHOUT_BOOST = 1.3;
+
+function emptyScores(): Record<Mood, number> {
+  return { happy: 0, confused: 0, tired: 0, frustrated: 0, excited: 0, neutral: 0 };
+}
+
+function addWeights(scores: Record<Mood, number>, weights: Weights, factor: number): void {
+  for (const mood of MOODS) {
+    const weight = weights[mood];
+    if (weight) scores[mood] += weight * factor;
+  }
+}
+
+function addNegated(scores: Record<Mood, number>, weights: Weights, factor: number): void {
+  for (const mood of MOODS) {
+    const weight = weights[mood];
+    if (!weight) continue;
+    scores[mood] = Math.max(0, scores[mood] - weight * factor);
+    scores[NEGATION_SHIFT[mood]] += weight * factor * NEGATION_SHIFT_RATIO;
+  }
+}
+
+function tokenize(text: string): { tokens: string[]; shouted: Set<number> } {
+  const tokens: string[] = [];
+  const shouted = new Set<number>();
+  const pattern = /\p{Extended_Pictographic}(?:️|‍\p{Extended_Pictographic})*|[A-Za-z]+(?:['’][A-Za-z]+)*|[!?]+/gu;
+
+  for (const [raw] of text.matchAll(pattern)) {
+    if (raw.length > 2 && /^[A-Z]+$/.test(raw)) shouted.add(tokens.length);
+    tokens.push(raw.replace(/’/g, "'").toLowerCase());
+  }
+  return { tokens, shouted };
+}
+
+function matchPhrase(tokens: string[], index: number): [number, Weights] | undefined {
+  for (const [words, weights] of PHRASES) {
+    if (words.every((word, offset) => tokens[index + offset] === word)) {
+      return [words.length, weights];
+    }
+  }
+  return undefined;
+}
+
+export function classifyEmotion(text: string): EmotionResult {
+  const raw = emptyScores();
+  const { tokens, shouted } = tokenize(text);
+  const contrastAt = tokens.lastIndexOf('but');
+
+  for (const [pattern, weights] of EMOTICONS) {
+    const matches = text.match(pattern)?.length ?? 0;
+    if (matches > 0) addWeights(raw, weights, matches);
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    // Runs of punctuation amplify whatever the sentence already feels like
+    if (/^[!?]+$/.test(token)) {
+      if (token.includes('?') && token.length > 1) raw.confused += 0.5 * Math.min(token.length, 4);
+      if (token.includes('!') && token.length > 1) raw.excited += 0.5 * Math.min(token.length, 4);
+      continue;
+    }
+
+    const phrase = matchPhrase(tokens, index);
+    const weights = phrase?.[1] ?? WORDS[token] ?? EMOJI[token];
+    if (!weights) continue;
+
+    let factor = 1;
+    let negated = false;
+    for (let back = 1; back <= MODIFIER_WINDOW && index - back >= 0; back++) {
+      const previous = tokens[index - back];
+      if (/^[!?]+$/.test(previous)) break;
+      // Phrases already carry their own negation ("don't understand")
+      if (!phrase && NEGATORS.has(previous)) negated = !negated;
+      if (INTENSIFIERS[previous]) factor *= INTENSIFIERS[previous];
+    }
+    if (shouted.has(index)) factor *= SHOUT_BOOST;
+    if (contrastAt >= 0) factor *= index > contrastAt ? CONTRAST_AFTER : CONTRAST_BEFORE;
+
+    if (negated) {
+      addNegated(raw, weights, factor);
+    } else {
+      addWeights(raw, weights, factor);
+    }
+    if (phrase) index += phrase[0] - 1;
+  }
+
+  raw.neutral += NEUTRAL_BASELINE;
+  const total = MOODS.reduce((sum, mood) => sum + raw[mood], 0);
+  const scores = emptyScores();
+  for (const mood of MOODS) {
+    scores[mood] = Number((raw[mood] / total).toFixed(3));
+  }
+
+  const mood = MOODS.reduce((best, candidate) => (raw[candidate] > raw[best] ? candidate : best), 'neutral' as Mood);
+  return { mood, confidence: scores[mood], scores };
+}